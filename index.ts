@@ -1,11 +1,345 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+  type ServerNotification,
+  type ServerRequest
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { authenticate } from "./src/auth.js";
-import { foursquareAPI } from "./src/api.js";
+import {
+  foursquareAPI,
+  RateLimitError,
+  type CategoryNode,
+  type Checkin,
+  type GeoAutocompleteResult,
+  type Taste,
+  type Tip,
+  type Venue,
+  type VenueSearchOptions
+} from "./src/api.js";
 import { tokenManager } from "./src/token.js";
 import { getConfigDir } from "./src/config.js";
+import { settingsManager } from "./src/settings.js";
+import { t } from "./src/i18n.js";
+import { checkinArchive, getCheckinHistory, getRecentCheckins } from "./src/archive.js";
+import { addDays, dateRangeToTimestamps, filterCheckins, filterVenues, timestampToDate, today } from "./src/filter.js";
+import { EXPORT_FORMATS, FileExistsError, exportCheckins, writeExportFile } from "./src/export.js";
+import { REVIEW_FORMATS, computeYearReview, renderYearReview } from "./src/review.js";
+import {
+  findCheckinsInBoundingBox,
+  findCheckinsWithinRadius,
+  findNearestVenues,
+  formatDistance,
+  getBoundingBoxCenter,
+  isValidBoundingBox,
+  isValidLatLng,
+  parseBoundingBox,
+  parseLatLng,
+  type CheckinDistance
+} from "./src/geo.js";
+import { searchCheckins, type SearchResult } from "./src/search.js";
+import { categoryTaxonomy } from "./src/categories.js";
+import { formatTable } from "./src/markdown.js";
+import { computeCheckinStats, countByCategory, countVisitsByVenue, type CheckinStats, type VenueVisits } from "./src/stats.js";
+import {
+  categoryTreeOutputSchema,
+  checkinOutputSchema,
+  checkinStatsOutputSchema,
+  listItemOutputSchema,
+  listOutputSchema,
+  mutationStatusSchema,
+  placeOutputSchema,
+  tasteOutputSchema,
+  tipOutputSchema,
+  toCategoryTreeOutputs,
+  toCheckinOutput,
+  toListItemOutput,
+  toListOutput,
+  toPlaceOutput,
+  toTasteOutput,
+  toTipOutput,
+  toVenueDetailsOutput,
+  toVenueOutput,
+  toVisitedVenueOutput,
+  venueDetailsOutputSchema,
+  venueOutputSchema,
+  visitedVenueOutputSchema,
+  yearReviewOutputSchema
+} from "./src/output.js";
+
+// ツールの説明文などを表示言語で登録するため、最初にユーザー設定を読み込む
+await settingsManager.load();
+
+// チェックイン一覧をCLI向けに出力
+function printCheckins(checkins: Checkin[]) {
+  if (checkins.length === 0) {
+    console.log(t().checkins.notFound);
+    return;
+  }
+
+  console.log(`${t().checkins.found(checkins.length)}\n`);
+  checkins.forEach((checkin, index) => {
+    console.log(t().checkins.header(index + 1));
+    console.log(foursquareAPI.formatCheckin(checkin));
+    console.log('');
+  });
+}
+
+// チェックイン一覧をMCPツール向けのテキストに整形
+function formatCheckinsText(checkins: Checkin[]): string {
+  const formattedCheckins = checkins.map((checkin, index) => {
+    const formatted = foursquareAPI.formatCheckin(checkin);
+    return `${t().checkins.header(index + 1)}\n${formatted}`;
+  });
+
+  const summary = `${t().checkins.found(checkins.length)}\n\n`;
+  return summary + formattedCheckins.join('\n\n');
+}
+
+// ベニュー一覧をCLI向けに出力
+function printVenues(venues: Venue[]) {
+  if (venues.length === 0) {
+    console.log(t().venues.notFound);
+    return;
+  }
+
+  console.log(`${t().venues.found(venues.length)}\n`);
+  venues.forEach((venue, index) => {
+    console.log(t().venues.header(index + 1));
+    console.log(foursquareAPI.formatVenue(venue));
+    console.log('');
+  });
+}
+
+// ベニュー一覧をMCPツール向けのテキストに整形
+function formatVenuesText(venues: Venue[]): string {
+  const formattedVenues = venues.map((venue, index) => {
+    const formatted = foursquareAPI.formatVenue(venue);
+    return `${t().venues.header(index + 1)}\n${formatted}`;
+  });
+
+  const summary = `${t().venues.found(venues.length)}\n\n`;
+  return summary + formattedVenues.join('\n\n');
+}
+
+// ベニュー一覧を自分の訪問状況付きでMCPツール向けのテキストに整形
+function formatVenuesWithVisitsText(venues: Venue[], visits: Map<string, VenueVisits>): string {
+  const formattedVenues = venues.map((venue, index) => {
+    const visit = visits.get(venue.id);
+    const status = visit
+      ? t().venues.visited(visit.count, foursquareAPI.formatCheckinDate(visit.lastCheckin))
+      : t().venues.notVisited;
+    return `${t().venues.header(index + 1)}\n${foursquareAPI.formatVenue(venue)}\n${status}`;
+  });
+
+  const visitedCount = venues.filter(venue => visits.has(venue.id)).length;
+  const summary = `${t().venues.foundWithVisits(venues.length, visitedCount)}\n\n`;
+  return summary + formattedVenues.join('\n\n');
+}
+
+// 地名の候補一覧をMCPツール向けのテキストに整形
+function formatPlacesText(places: GeoAutocompleteResult[]): string {
+  return places.map((place, index) => {
+    const lines = [t().venues.placeHeader(index + 1), `📍 ${place.displayText || place.text}`];
+    if (place.ll) {
+      lines.push(`🗺️ ${place.ll.lat}, ${place.ll.lng}`);
+    }
+    if (place.venueId) {
+      lines.push(`🆔 ${place.venueId}`);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+// ベニューIDの入力補完（アーカイブ内の訪問済みベニューを優先し、APIの候補で補う）
+async function completeVenueId(value: string): Promise<string[]> {
+  if (value.trim().length === 0) {
+    return [];
+  }
+
+  const needle = value.toLowerCase();
+  const ids = new Set<string>();
+  const checkins = await checkinArchive.query();
+  for (const checkin of checkins) {
+    if (checkin.venue.id.startsWith(value) || checkin.venue.name.toLowerCase().includes(needle)) {
+      ids.add(checkin.venue.id);
+    }
+  }
+
+  try {
+    // 最新チェックインの位置があれば、その周辺を優先して検索
+    const latest = checkins[0];
+    const ll = latest ? `${latest.venue.location.lat},${latest.venue.location.lng}` : undefined;
+    const venues = await foursquareAPI.autocompleteVenues({ query: value, ll });
+    venues.forEach(venue => ids.add(venue.id));
+  } catch {
+    // 未認証・オフライン時はアーカイブの候補だけを返す
+  }
+
+  return [...ids].slice(0, 20);
+}
+
+// Tips一覧をMCPツール向けのテキストに整形
+function formatTipsText(tips: Tip[]): string {
+  const formattedTips = tips.map((tip, index) => {
+    const formatted = foursquareAPI.formatTip(tip);
+    return `${t().tips.header(index + 1)}\n${formatted}`;
+  });
+
+  const summary = `${t().tips.found(tips.length)}\n\n`;
+  return summary + formattedTips.join('\n\n');
+}
+
+// テイスト一覧をMCPツール向けのテキストに整形
+function formatTastesText(tastes: Taste[]): string {
+  return tastes
+    .map(taste => `- ${taste.onUser ? '✅ ' : ''}${taste.text} (${taste.id})`)
+    .join('\n');
+}
+
+// カテゴリー名からテイスト検索用のキーワードを作成（例: "Ramen Restaurant" → "Ramen"）
+function tasteKeyword(categoryName: string): string {
+  const keyword = categoryName.replace(/\s+(Restaurant|Shop|Place|Joint|Store)$/i, '');
+  return keyword || categoryName;
+}
+
+// カテゴリー名を指定してベニューを検索
+// categoryIdが無ければカテゴリー名をIDに変換して渡す（APIが上位カテゴリーからサブカテゴリーまで検索する）
+async function searchVenuesByCategory(options: VenueSearchOptions & { category?: string }): Promise<Venue[]> {
+  if (!options.category || options.categoryId) {
+    return foursquareAPI.searchVenues(options);
+  }
+
+  let categoryIds: string[] = [];
+  try {
+    categoryIds = (await categoryTaxonomy.findCategories(options.category)).map(category => category.id);
+  } catch {
+    // カテゴリー階層を取得できない場合は検索後に名前で絞り込む
+  }
+
+  if (categoryIds.length === 0) {
+    return filterVenues(await foursquareAPI.searchVenues(options), options.category);
+  }
+  return foursquareAPI.searchVenues({ ...options, categoryId: categoryIds.join(',') });
+}
+
+// カテゴリー階層をインデント付きのテキストに整形
+function formatCategoryTree(nodes: CategoryNode[], maxDepth: number, depth = 0): string[] {
+  return nodes.flatMap(node => {
+    const line = `${'  '.repeat(depth)}- ${node.name} (${node.id})`;
+    const children = node.categories && depth + 1 < maxDepth
+      ? formatCategoryTree(node.categories, maxDepth, depth + 1)
+      : [];
+    return [line, ...children];
+  });
+}
+
+// チェックイン統計を表形式のテキストに整形（ランキングは上位top件まで）
+function formatCheckinStatsText(stats: CheckinStats, top: number): string {
+  const messages = t().tools.checkinStats;
+  const lines = [messages.summary(stats.total, stats.firstCheckin ?? '', stats.lastCheckin ?? '')];
+  if (stats.longestStreak) {
+    const { days, start, end } = stats.longestStreak;
+    lines.push(messages.longestStreak(days, start, end));
+  }
+  if (stats.latestStreak && stats.latestStreak !== stats.longestStreak) {
+    const { days, start, end } = stats.latestStreak;
+    lines.push(messages.latestStreak(days, start, end));
+  }
+
+  const sections = [
+    lines.join('\n'),
+    `${messages.venues}\n${formatTable(
+      ['#', messages.venue, messages.count, messages.firstVisit, messages.lastVisit],
+      stats.venues.slice(0, top).map((venue, index) => [index + 1, venue.name, venue.count, venue.firstVisit, venue.lastVisit])
+    )}`,
+    `${messages.categories}\n${formatTable(
+      ['#', messages.category, messages.count],
+      stats.categories.slice(0, top).map((category, index) => [index + 1, category.name, category.count])
+    )}`,
+    `${messages.cities}\n${formatTable(
+      ['#', messages.city, messages.count],
+      stats.cities.slice(0, top).map((city, index) => [index + 1, city.name, city.count])
+    )}`,
+    `${messages.weekdays}\n${formatTable(
+      [messages.weekday, messages.count],
+      stats.weekdays.map((count, index) => [t().format.dayNames[index] ?? '', count])
+    )}`,
+    `${messages.hours}\n${formatTable(
+      [messages.hour, messages.count],
+      stats.hours.flatMap((count, hour) => count > 0 ? [[messages.hourLabel(hour), count]] : [])
+    )}`,
+    `${messages.months}\n${formatTable(
+      [messages.month, messages.count, messages.change],
+      stats.months.map(({ month, count, change }) => [
+        month,
+        count,
+        change === null ? '—' : change > 0 ? `+${change}` : String(change)
+      ])
+    )}`
+  ];
+  return sections.join('\n\n');
+}
+
+// 距離付きのチェックイン一覧をMCPツール向けのテキストに整形
+function formatCheckinDistancesText(summary: string, results: CheckinDistance[]): string {
+  const formatted = results.map(({ checkin, distance, visitCount }, index) => {
+    const lines = [
+      t().checkins.header(index + 1),
+      foursquareAPI.formatCheckin(checkin),
+      t().tools.searchCheckinsByLocation.distance(formatDistance(distance))
+    ];
+    if (visitCount !== undefined) {
+      lines.push(t().tools.searchCheckinsByLocation.visitCount(visitCount));
+    }
+    return lines.join('\n');
+  });
+  return [summary, ...formatted].join('\n\n');
+}
+
+// 全文検索の結果をMCPツール向けのテキストに整形
+function formatSearchResultsText(summary: string, results: SearchResult[]): string {
+  const { fields, highlight } = t().tools.searchMyCheckins;
+  const formatted = results.map(({ checkin, highlights }, index) => [
+    t().checkins.header(index + 1),
+    foursquareAPI.formatCheckin(checkin),
+    ...highlights.map(({ field, snippet }) => highlight(fields[field], snippet))
+  ].join('\n'));
+  return [summary, ...formatted].join('\n\n');
+}
+
+// MCPの進捗通知を送信する関数を作成（progressTokenが無い場合は何もしない）
+function createProgressReporter(extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  const progressToken = extra._meta?.progressToken;
+
+  return async ({ fetched, total }: { fetched: number; total?: number }) => {
+    if (progressToken === undefined) {
+      return;
+    }
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: fetched,
+        total,
+        message: t().common.progress(fetched, total)
+      }
+    });
+  };
+}
+
+// 日付引数（YYYY-MM-DD）のスキーマ
+function dateArg(description: string) {
+  return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, t().common.dateFormat).describe(description);
+}
 
 // CLIサブコマンドの処理
 async function handleCLI() {
@@ -34,34 +368,409 @@ async function handleCLI() {
             i++;
           } else if (args[i] === '--json') {
             options.json = true;
+          } else if (args[i] === '--format' && args[i + 1]) {
+            options.format = args[i + 1];
+            i++;
+          } else if (args[i] === '--archive') {
+            options.source = 'archive';
+          } else if (args[i] === '--category' && args[i + 1]) {
+            options.category = args[i + 1];
+            i++;
           }
         }
 
+        if (options.format && !EXPORT_FORMATS.includes(options.format)) {
+          console.error(t().common.error(t().cli.invalidFormat(options.format, EXPORT_FORMATS)));
+          process.exit(1);
+        }
+
         // チェックインを取得
-        const checkins = await foursquareAPI.getUserCheckins(options);
+        const checkins = await filterCheckins(
+          await getRecentCheckins({
+            limit: options.limit,
+            afterTimestamp: options.afterTimestamp,
+            sort: options.sort,
+            source: options.source
+          }),
+          { category: options.category }
+        );
 
         if (options.json) {
           // JSON出力
           console.log(JSON.stringify(checkins, null, 2));
+        } else if (options.format) {
+          // CSV・ICSなどのファイル形式で出力
+          process.stdout.write(exportCheckins(checkins, options.format));
         } else {
           // フォーマット済み出力
-          if (checkins.length === 0) {
-            console.log("チェックインが見つかりませんでした。");
-          } else {
-            console.log(`🎯 ${checkins.length}件のチェックインを取得しました\n`);
-            checkins.forEach((checkin, index) => {
-              console.log(`--- チェックイン #${index + 1} ---`);
-              console.log(foursquareAPI.formatCheckin(checkin));
-              console.log('');
-            });
+          printCheckins(checkins);
+        }
+
+        process.exit(0);
+      } catch (error: any) {
+        console.error(t().common.error(error.message));
+        t().cli.authHint.forEach(line => console.error(line));
+        process.exit(1);
+      }
+    } else if (toolName === 'get-all-checkins') {
+      try {
+        // オプションをパース
+        const options: any = {
+          sort: 'newestfirst'
+        };
+
+        for (let i = 2; i < args.length; i++) {
+          const next = args[i + 1];
+          if (args[i] === '--after' && next) {
+            options.afterTimestamp = parseInt(next, 10);
+            i++;
+          } else if (args[i] === '--before' && next) {
+            options.beforeTimestamp = parseInt(next, 10);
+            i++;
+          } else if (args[i] === '--sort' && next) {
+            options.sort = next;
+            i++;
+          } else if (args[i] === '--resume') {
+            options.resume = true;
+          } else if (args[i] === '--json') {
+            options.json = true;
+          } else if (args[i] === '--archive') {
+            options.source = 'archive';
+          } else if (args[i] === '--category' && next) {
+            options.category = next;
+            i++;
+          }
+        }
+
+        // 進捗はstderrに出力（--json の出力を汚さないため）
+        const checkins = await filterCheckins(await getCheckinHistory({
+          ...options,
+          checkpoint: true,
+          onProgress: ({ fetched, total }) => {
+            console.error(t().cli.progress(fetched, total));
+          }
+        }), { category: options.category });
+
+        if (options.json) {
+          console.log(JSON.stringify(checkins, null, 2));
+        } else {
+          printCheckins(checkins);
+        }
+
+        process.exit(0);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) {
+          console.error(t().common.rateLimited(error.message));
+          console.error(`\n${t().common.checkpointSaved}`);
+          console.error(t().cli.resumeFetch);
+          process.exit(1);
+        }
+        console.error(t().common.error(error.message));
+        t().cli.authHint.forEach(line => console.error(line));
+        process.exit(1);
+      }
+    } else if (toolName === 'sync-checkins') {
+      try {
+        const resume = args.slice(2).includes('--resume');
+
+        const { added, total } = await checkinArchive.sync({
+          resume,
+          onProgress: ({ fetched, total }) => {
+            console.error(t().cli.progress(fetched, total));
+          }
+        });
+
+        console.log(t().cli.syncDone);
+        console.log(t().cli.syncAdded(added));
+        console.log(t().cli.syncTotal(total));
+
+        process.exit(0);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) {
+          console.error(t().common.rateLimited(error.message));
+          console.error(`\n${t().common.checkpointSaved}`);
+          console.error(t().cli.resumeSync);
+          process.exit(1);
+        }
+        console.error(t().common.error(error.message));
+        t().cli.authHint.forEach(line => console.error(line));
+        process.exit(1);
+      }
+    } else if (toolName === 'search-venues') {
+      try {
+        // オプションをパース
+        const options: any = {
+          limit: 10
+        };
+
+        for (let i = 2; i < args.length; i++) {
+          const next = args[i + 1];
+          if (args[i] === '--ll' && next) {
+            options.ll = next;
+            i++;
+          } else if (args[i] === '--near' && next) {
+            options.near = next;
+            i++;
+          } else if (args[i] === '--query' && next) {
+            options.query = next;
+            i++;
+          } else if (args[i] === '--radius' && next) {
+            options.radius = parseInt(next, 10);
+            i++;
+          } else if (args[i] === '--category-id' && next) {
+            options.categoryId = next;
+            i++;
+          } else if (args[i] === '--limit' && next) {
+            options.limit = parseInt(next, 10);
+            i++;
+          } else if (args[i] === '--intent' && next) {
+            options.intent = next;
+            i++;
+          } else if (args[i] === '--category' && next) {
+            options.category = next;
+            i++;
+          } else if (args[i] === '--json') {
+            options.json = true;
+          }
+        }
+
+        if (!options.ll && !options.near && options.intent !== 'global') {
+          throw new Error(t().cli.locationRequired);
+        }
+
+        const venues = await searchVenuesByCategory(options);
+
+        if (options.json) {
+          console.log(JSON.stringify(venues, null, 2));
+        } else {
+          printVenues(venues);
+        }
+
+        process.exit(0);
+      } catch (error: any) {
+        console.error(t().common.error(error.message));
+        process.exit(1);
+      }
+    } else if (toolName === 'export-checkins') {
+      try {
+        // オプションをパース
+        const options: any = {
+          format: 'geojson',
+          source: 'archive'
+        };
+
+        for (let i = 2; i < args.length; i++) {
+          const next = args[i + 1];
+          if (args[i] === '--format' && next) {
+            options.format = next;
+            i++;
+          } else if (args[i] === '--from' && next) {
+            options.from = next;
+            i++;
+          } else if (args[i] === '--to' && next) {
+            options.to = next;
+            i++;
+          } else if (args[i] === '--category' && next) {
+            options.category = next;
+            i++;
+          } else if (args[i] === '--archive') {
+            options.source = 'archive';
+          } else if (args[i] === '--api') {
+            options.source = 'api';
+          } else if (args[i] === '--resume') {
+            options.resume = true;
+          } else if (args[i] === '--output' && next) {
+            options.output = next;
+            i++;
+          } else if (args[i] === '--overwrite') {
+            options.overwrite = true;
+          }
+        }
+
+        if (!EXPORT_FORMATS.includes(options.format)) {
+          console.error(t().common.error(t().cli.invalidFormat(options.format, EXPORT_FORMATS)));
+          process.exit(1);
+        }
+
+        // 進捗はstderrに出力（標準出力への書き出しを汚さないため）
+        const checkins = await filterCheckins(await getCheckinHistory({
+          ...dateRangeToTimestamps(options.from, options.to),
+          source: options.source,
+          sort: 'oldestfirst',
+          checkpoint: true,
+          resume: options.resume,
+          onProgress: ({ fetched, total }) => {
+            console.error(t().cli.progress(fetched, total));
+          }
+        }), { category: options.category });
+        const content = exportCheckins(checkins, options.format);
+
+        if (options.output) {
+          const writtenPath = await writeExportFile(options.output, content, options.overwrite);
+          console.error(t().cli.exported(checkins.length, writtenPath));
+        } else {
+          process.stdout.write(content);
+        }
+
+        process.exit(0);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) {
+          console.error(t().common.rateLimited(error.message));
+          console.error(`\n${t().common.checkpointSaved}`);
+          console.error(t().cli.resumeFetch);
+          process.exit(1);
+        }
+        if (error instanceof FileExistsError) {
+          console.error(t().common.fileExists(error.path));
+          process.exit(1);
+        }
+        console.error(t().common.error(error.message));
+        t().cli.authHint.forEach(line => console.error(line));
+        process.exit(1);
+      }
+    } else if (toolName === 'checkin-stats') {
+      try {
+        // オプションをパース
+        const options: any = {
+          top: 10,
+          source: 'archive'
+        };
+
+        for (let i = 2; i < args.length; i++) {
+          const next = args[i + 1];
+          if (args[i] === '--from' && next) {
+            options.from = next;
+            i++;
+          } else if (args[i] === '--to' && next) {
+            options.to = next;
+            i++;
+          } else if (args[i] === '--category' && next) {
+            options.category = next;
+            i++;
+          } else if (args[i] === '--top' && next) {
+            options.top = parseInt(next, 10);
+            i++;
+          } else if (args[i] === '--archive') {
+            options.source = 'archive';
+          } else if (args[i] === '--api') {
+            options.source = 'api';
+          } else if (args[i] === '--resume') {
+            options.resume = true;
+          } else if (args[i] === '--json') {
+            options.json = true;
+          }
+        }
+
+        // 進捗はstderrに出力（--json の出力を汚さないため）
+        const checkins = await filterCheckins(await getCheckinHistory({
+          ...dateRangeToTimestamps(options.from, options.to),
+          source: options.source,
+          checkpoint: true,
+          resume: options.resume,
+          onProgress: ({ fetched, total }) => {
+            console.error(t().cli.progress(fetched, total));
+          }
+        }), { category: options.category });
+        const stats = computeCheckinStats(checkins);
+
+        if (options.json) {
+          console.log(JSON.stringify(stats, null, 2));
+        } else {
+          console.log(stats.total === 0 ? t().tools.checkinStats.notFound : formatCheckinStatsText(stats, options.top));
+        }
+
+        process.exit(0);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) {
+          console.error(t().common.rateLimited(error.message));
+          console.error(`\n${t().common.checkpointSaved}`);
+          console.error(t().cli.resumeFetch);
+          process.exit(1);
+        }
+        console.error(t().common.error(error.message));
+        t().cli.authHint.forEach(line => console.error(line));
+        process.exit(1);
+      }
+    } else if (toolName === 'generate-review') {
+      try {
+        // オプションをパース
+        const options: any = {
+          year: new Date().getFullYear(),
+          format: 'markdown',
+          top: 10,
+          source: 'archive'
+        };
+
+        for (let i = 2; i < args.length; i++) {
+          const next = args[i + 1];
+          if (args[i] === '--year' && next) {
+            options.year = parseInt(next, 10);
+            i++;
+          } else if (args[i] === '--format' && next) {
+            options.format = next;
+            i++;
+          } else if (args[i] === '--top' && next) {
+            options.top = parseInt(next, 10);
+            i++;
+          } else if (args[i] === '--archive') {
+            options.source = 'archive';
+          } else if (args[i] === '--api') {
+            options.source = 'api';
+          } else if (args[i] === '--resume') {
+            options.resume = true;
+          } else if (args[i] === '--output' && next) {
+            options.output = next;
+            i++;
+          } else if (args[i] === '--overwrite') {
+            options.overwrite = true;
+          }
+        }
+
+        if (!REVIEW_FORMATS.includes(options.format)) {
+          console.error(t().common.error(t().cli.invalidFormat(options.format, REVIEW_FORMATS)));
+          process.exit(1);
+        }
+
+        // 進捗はstderrに出力（標準出力への書き出しを汚さないため）
+        // 新しく訪れた場所の判定に前年までの履歴も使う
+        const review = computeYearReview(await getCheckinHistory({
+          ...dateRangeToTimestamps(undefined, `${options.year + 1}-01-01`),
+          source: options.source,
+          checkpoint: true,
+          resume: options.resume,
+          onProgress: ({ fetched, total }) => {
+            console.error(t().cli.progress(fetched, total));
           }
+        }), options.year);
+
+        if (review.total === 0) {
+          console.log(t().tools.generateReview.notFound(options.year));
+          process.exit(0);
+        }
+
+        const content = renderYearReview(review, options.format, options.top);
+
+        if (options.output) {
+          const writtenPath = await writeExportFile(options.output, content, options.overwrite);
+          console.error(t().tools.generateReview.written(options.year, writtenPath));
+        } else {
+          process.stdout.write(content);
         }
 
         process.exit(0);
       } catch (error: any) {
-        console.error(`❌ エラー: ${error.message}`);
-        console.error('\n認証が必要な場合は、MCPサーバーとして起動してauthenticateツールを使用するか、');
-        console.error('環境変数 FOURSQUARE_ACCESS_TOKEN を設定してください。');
+        if (error instanceof RateLimitError) {
+          console.error(t().common.rateLimited(error.message));
+          console.error(`\n${t().common.checkpointSaved}`);
+          console.error(t().cli.resumeFetch);
+          process.exit(1);
+        }
+        if (error instanceof FileExistsError) {
+          console.error(t().common.fileExists(error.path));
+          process.exit(1);
+        }
+        console.error(t().common.error(error.message));
+        t().cli.authHint.forEach(line => console.error(line));
         process.exit(1);
       }
     } else if (toolName === 'authenticate') {
@@ -84,16 +793,15 @@ async function handleCLI() {
         const tokenInfo = await authenticate(clientId, clientSecret);
         const configDir = getConfigDir();
 
-        console.log('✅ 認証成功！');
-        console.log(`\nアクセストークンが以下の場所に保存されました：`);
+        console.log(t().cli.authSuccess);
+        console.log(t().cli.tokenSavedAt);
         console.log(`${configDir}/token.json`);
-        console.log('\nこれで「invoke get-user-checkins」コマンドが使用可能になりました。');
+        console.log(t().cli.readyToUse);
 
         process.exit(0);
       } catch (error: any) {
-        console.error(`❌ 認証エラー: ${error.message}`);
-        console.error('\n環境変数にFOURSQUARE_CLIENT_IDとFOURSQUARE_CLIENT_SECRETを設定するか、');
-        console.error('以下のオプションで指定してください：');
+        console.error(t().cli.authError(error.message));
+        t().cli.credentialsHint.forEach(line => console.error(line));
         console.error('  --client-id <CLIENT_ID>');
         console.error('  --client-secret <CLIENT_SECRET>');
         process.exit(1);
@@ -103,8 +811,8 @@ async function handleCLI() {
         const hasToken = await tokenManager.hasToken();
 
         if (!hasToken) {
-          console.log('❌ トークンが見つかりません');
-          console.log('\n「invoke authenticate」コマンドを実行して認証を行ってください。');
+          console.log(t().cli.tokenNotFound);
+          console.log(t().cli.runAuthenticate);
           process.exit(1);
         }
 
@@ -115,39 +823,28 @@ async function handleCLI() {
           const isEnvToken = !!process.env.FOURSQUARE_ACCESS_TOKEN;
 
           if (isEnvToken) {
-            console.log('✅ 認証済み');
-            console.log('\nトークンは有効です。');
-            console.log('取得元: 環境変数 FOURSQUARE_ACCESS_TOKEN');
+            console.log(t().cli.authenticated);
+            console.log(t().cli.tokenValid);
+            console.log(t().cli.tokenFromEnv);
           } else {
-            console.log('✅ 認証済み');
-            console.log('\nトークンは有効です。');
-            console.log(`保存場所: ${configDir}/token.json`);
+            console.log(t().cli.authenticated);
+            console.log(t().cli.tokenValid);
+            console.log(t().cli.tokenSavedPath(`${configDir}/token.json`));
           }
         } else {
-          console.log('⚠️ トークンが無効です');
-          console.log('\n「invoke authenticate」コマンドを実行して再認証してください。');
+          console.log(t().cli.tokenInvalid);
+          console.log(t().cli.runReauthenticate);
           process.exit(1);
         }
 
         process.exit(0);
       } catch (error: any) {
-        console.error(`❌ エラー: ${error.message}`);
+        console.error(t().common.error(error.message));
         process.exit(1);
       }
     } else {
-      console.error(`❌ 不明なツール: ${toolName}`);
-      console.error('\n使用可能なツール:');
-      console.error('  authenticate        - Foursquare認証');
-      console.error('  check-auth-status   - 認証状態を確認');
-      console.error('  get-user-checkins   - チェックインを取得');
-      console.error('\nget-user-checkinsのオプション:');
-      console.error('  --limit <数値>      - 取得件数（デフォルト: 50）');
-      console.error('  --after <timestamp> - このUnixタイムスタンプ以降のチェックイン');
-      console.error('  --sort <順序>       - newestfirst または oldestfirst');
-      console.error('  --json              - JSON形式で出力');
-      console.error('\nauthenticateのオプション:');
-      console.error('  --client-id <ID>    - Foursquare CLIENT_ID');
-      console.error('  --client-secret <SECRET> - Foursquare CLIENT_SECRET');
+      console.error(t().cli.unknownTool(toolName));
+      t().cli.help.forEach(line => console.error(line));
       process.exit(1);
     }
   }
@@ -163,15 +860,85 @@ const server = new McpServer({
   description: "MCP server for Foursquare API integration with OAuth authentication"
 });
 
+// 最近のチェックインリソースのURI
+const RECENT_CHECKINS_URI = "foursquare://checkins/recent";
+
+// リソース一覧の1ページあたりの件数
+const RESOURCE_PAGE_SIZE = 50;
+
+// クライアントが購読中のリソースURI
+const subscribedResources = new Set<string>();
+
+// チェックインの追加・更新・削除をクライアントに通知
+// このプロセスでの同期・投稿・更新・削除のみが対象で、アプリや別プロセス（CLIの同期など）での変更は通知しない
+async function notifyCheckinsChanged(checkinId?: string) {
+  server.sendResourceListChanged();
+  if (subscribedResources.has(RECENT_CHECKINS_URI)) {
+    await server.server.sendResourceUpdated({ uri: RECENT_CHECKINS_URI });
+  }
+  const checkinUri = checkinId ? `foursquare://checkins/${checkinId}` : undefined;
+  if (checkinUri && subscribedResources.has(checkinUri)) {
+    await server.server.sendResourceUpdated({ uri: checkinUri });
+  }
+}
+
+// MCPのelicitationでユーザーに実行確認を求める
+// クライアントがelicitationに対応していない場合は "unsupported" を返す
+async function confirmAction(message: string): Promise<'accepted' | 'declined' | 'unsupported'> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    return 'unsupported';
+  }
+
+  const result = await server.server.elicitInput({
+    message,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        confirm: {
+          type: "boolean",
+          title: t().common.confirmTitle,
+          description: t().common.confirmDescription
+        }
+      },
+      required: ["confirm"]
+    }
+  });
+
+  return result.action === 'accept' && result.content?.confirm === true ? 'accepted' : 'declined';
+}
+
+// 確認が得られなかった場合のツール応答
+function confirmationFailedResult(status: 'declined' | 'unsupported') {
+  if (status === 'unsupported') {
+    return {
+      content: [{
+        type: "text" as const,
+        text: t().common.elicitationUnsupported
+      }],
+      isError: true
+    };
+  }
+  return {
+    content: [{
+      type: "text" as const,
+      text: t().common.cancelled
+    }],
+    structuredContent: { status: 'cancelled' }
+  };
+}
+
 // 認証ツール
 server.registerTool(
   "authenticate",
   {
-    title: "Foursquare認証",
-    description: "ブラウザでFoursquareにログインしてアクセストークンを取得します",
+    title: t().tools.authenticate.title,
+    description: t().tools.authenticate.description,
     inputSchema: {
-      clientId: z.string().optional().describe("Foursquare CLIENT_ID（環境変数から読み込み可）"),
-      clientSecret: z.string().optional().describe("Foursquare CLIENT_SECRET（環境変数から読み込み可）")
+      clientId: z.string().optional().describe(t().tools.authenticate.clientId),
+      clientSecret: z.string().optional().describe(t().tools.authenticate.clientSecret)
+    },
+    outputSchema: {
+      tokenPath: z.string()
     }
   },
   async ({ clientId, clientSecret }) => {
@@ -182,14 +949,15 @@ server.registerTool(
       return {
         content: [{
           type: "text",
-          text: `✅ 認証成功！\n\nアクセストークンが以下の場所に保存されました：\n${configDir}/token.json\n\nこれで「get-user-checkins」ツールが使用可能になりました。`
-        }]
+          text: t().tools.authenticate.success(`${configDir}/token.json`)
+        }],
+        structuredContent: { tokenPath: `${configDir}/token.json` }
       };
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `❌ 認証エラー\n\n${error.message}\n\n環境変数にFOURSQUARE_CLIENT_IDとFOURSQUARE_CLIENT_SECRETを設定するか、パラメータで指定してください。`
+          text: t().tools.authenticate.failure(error.message)
         }],
         isError: true
       };
@@ -201,9 +969,13 @@ server.registerTool(
 server.registerTool(
   "check-auth-status",
   {
-    title: "認証状態を確認",
-    description: "保存されたトークンの有効性を確認します",
-    inputSchema: {}
+    title: t().tools.checkAuthStatus.title,
+    description: t().tools.checkAuthStatus.description,
+    inputSchema: {},
+    outputSchema: {
+      authenticated: z.boolean(),
+      source: z.enum(["env", "file"]).optional()
+    }
   },
   async () => {
     try {
@@ -213,8 +985,9 @@ server.registerTool(
         return {
           content: [{
             type: "text",
-            text: "❌ トークンが見つかりません\n\n「authenticate」ツールを実行して認証を行ってください。"
-          }]
+            text: t().tools.checkAuthStatus.tokenNotFound
+          }],
+          structuredContent: { authenticated: false }
         };
       }
 
@@ -225,28 +998,30 @@ server.registerTool(
         const isEnvToken = !!process.env.FOURSQUARE_ACCESS_TOKEN;
         
         const message = isEnvToken 
-          ? "✅ 認証済み\n\nトークンは有効です。\n取得元: 環境変数 FOURSQUARE_ACCESS_TOKEN"
-          : `✅ 認証済み\n\nトークンは有効です。\n保存場所: ${configDir}/token.json`;
+          ? t().tools.checkAuthStatus.validFromEnv
+          : t().tools.checkAuthStatus.validFromFile(`${configDir}/token.json`);
         
         return {
           content: [{
             type: "text",
             text: message
-          }]
+          }],
+          structuredContent: { authenticated: true, source: isEnvToken ? 'env' : 'file' }
         };
       } else {
         return {
           content: [{
             type: "text",
-            text: "⚠️ トークンが無効です\n\n「authenticate」ツールを実行して再認証してください。"
-          }]
+            text: t().tools.checkAuthStatus.invalid
+          }],
+          structuredContent: { authenticated: false }
         };
       }
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `❌ エラー: ${error.message}`
+          text: t().common.error(error.message)
         }],
         isError: true
       };
@@ -258,50 +1033,49 @@ server.registerTool(
 server.registerTool(
   "get-user-checkins",
   {
-    title: "最新チェックインを取得",
-    description: "認証済みユーザーの最新チェックイン履歴を取得します",
+    title: t().tools.getUserCheckins.title,
+    description: t().tools.getUserCheckins.description,
     inputSchema: {
-      limit: z.number().optional().default(50).describe("取得件数（最大100）"),
-      afterTimestamp: z.number().optional().describe("このUnixタイムスタンプ以降のチェックインのみ取得"),
-      sort: z.enum(["newestfirst", "oldestfirst"]).optional().default("newestfirst").describe("ソート順")
+      limit: z.number().optional().default(50).describe(t().params.limit(100)),
+      afterTimestamp: z.number().optional().describe(t().params.afterTimestamp),
+      sort: z.enum(["newestfirst", "oldestfirst"]).optional().default("newestfirst").describe(t().params.sort),
+      source: z.enum(["api", "archive"]).optional().default("api").describe(t().params.source),
+      category: z.string().optional().describe(t().params.category)
+    },
+    outputSchema: {
+      count: z.number(),
+      checkins: z.array(checkinOutputSchema)
     }
   },
-  async ({ limit, afterTimestamp, sort }) => {
+  async ({ limit, afterTimestamp, sort, source, category }) => {
     try {
-      const checkins = await foursquareAPI.getUserCheckins({
-        limit,
-        afterTimestamp,
-        sort
-      });
+      const checkins = await filterCheckins(
+        await getRecentCheckins({ limit, afterTimestamp, sort, source }),
+        { category }
+      );
 
       if (checkins.length === 0) {
         return {
           content: [{
             type: "text",
-            text: "チェックインが見つかりませんでした。"
-          }]
+            text: t().checkins.notFound
+          }],
+          structuredContent: { count: 0, checkins: [] }
         };
       }
 
-      const formattedCheckins = checkins.map((checkin, index) => {
-        const formatted = foursquareAPI.formatCheckin(checkin);
-        return `--- チェックイン #${index + 1} ---\n${formatted}`;
-      });
-
-      const summary = `🎯 ${checkins.length}件のチェックインを取得しました\n\n`;
-      const result = summary + formattedCheckins.join('\n\n');
-
       return {
         content: [{
           type: "text",
-          text: result
-        }]
+          text: formatCheckinsText(checkins)
+        }],
+        structuredContent: { count: checkins.length, checkins: checkins.map(toCheckinOutput) }
       };
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `❌ エラー: ${error.message}\n\n「authenticate」ツールで認証を行ってください。`
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
         }],
         isError: true
       };
@@ -309,6 +1083,2460 @@ server.registerTool(
   }
 );
 
+// get-all-checkinsで1回に返すチェックインの上限
+const GET_ALL_CHECKINS_MAX_LIMIT = 500;
+
+// 全チェックイン取得ツール
+server.registerTool(
+  "get-all-checkins",
+  {
+    title: t().tools.getAllCheckins.title,
+    description: t().tools.getAllCheckins.description,
+    inputSchema: {
+      afterTimestamp: z.number().optional().describe(t().params.afterTimestamp),
+      beforeTimestamp: z.number().optional().describe(t().params.beforeTimestamp),
+      sort: z.enum(["newestfirst", "oldestfirst"]).optional().default("newestfirst").describe(t().params.sort),
+      resume: z.boolean().optional().default(false).describe(t().params.resume),
+      source: z.enum(["api", "archive"]).optional().default("api").describe(t().params.source),
+      category: z.string().optional().describe(t().params.category),
+      limit: z.number().int().min(1).max(GET_ALL_CHECKINS_MAX_LIMIT).optional().default(100).describe(t().params.limit(GET_ALL_CHECKINS_MAX_LIMIT)),
+      offset: z.number().int().min(0).optional().default(0).describe(t().tools.getAllCheckins.offset)
+    },
+    outputSchema: {
+      total: z.number(),
+      offset: z.number(),
+      count: z.number(),
+      nextOffset: z.number().optional(),
+      checkins: z.array(checkinOutputSchema)
+    }
+  },
+  async ({ afterTimestamp, beforeTimestamp, sort, resume, source, category, limit, offset }, extra) => {
+    try {
+      const checkins = await filterCheckins(await getCheckinHistory({
+        source,
+        afterTimestamp,
+        beforeTimestamp,
+        sort,
+        checkpoint: true,
+        resume,
+        onProgress: createProgressReporter(extra)
+      }), { category });
+
+      // 履歴全体を1つの結果に入れると大きくなりすぎるため、offset・limitで切り出して返す
+      const page = checkins.slice(offset, offset + limit);
+      const nextOffset = offset + page.length < checkins.length ? offset + page.length : undefined;
+
+      if (page.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().checkins.notFound
+          }],
+          structuredContent: { total: checkins.length, offset, count: 0, checkins: [] }
+        };
+      }
+
+      const lines = [
+        t().tools.getAllCheckins.page(offset + 1, offset + page.length, checkins.length),
+        formatCheckinsText(page)
+      ];
+      if (nextOffset !== undefined) {
+        lines.push(t().tools.getAllCheckins.more(nextOffset));
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: lines.join('\n\n')
+        }],
+        structuredContent: { total: checkins.length, offset, count: page.length, nextOffset, checkins: page.map(toCheckinOutput) }
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return {
+          content: [{
+            type: "text",
+            text: `${t().common.rateLimited(error.message)}\n\n${t().tools.getAllCheckins.resumeHint}`
+          }],
+          isError: true
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// ベニュー検索ツール
+server.registerTool(
+  "search-venues",
+  {
+    title: t().tools.searchVenues.title,
+    description: t().tools.searchVenues.description,
+    inputSchema: {
+      ll: z.string().regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, t().common.llFormat).optional().describe(t().params.ll),
+      near: z.string().optional().describe(t().params.near),
+      query: z.string().optional().describe(t().params.query),
+      radius: z.number().optional().describe(t().params.radius),
+      categoryId: z.string().optional().describe(t().tools.searchVenues.categoryId),
+      limit: z.number().optional().default(10).describe(t().params.limit(50)),
+      intent: z.enum(["checkin", "browse", "global", "match"]).optional().describe(t().tools.searchVenues.intent),
+      category: z.string().optional().describe(t().params.category)
+    },
+    outputSchema: {
+      count: z.number(),
+      venues: z.array(venueOutputSchema)
+    }
+  },
+  async ({ ll, near, query, radius, categoryId, limit, intent, category }) => {
+    if (!ll && !near && intent !== 'global') {
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.searchVenues.locationRequired
+        }],
+        isError: true
+      };
+    }
+
+    try {
+      const venues = await searchVenuesByCategory({ ll, near, query, radius, categoryId, limit, intent, category });
+
+      if (venues.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().venues.notFound
+          }],
+          structuredContent: { count: 0, venues: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatVenuesText(venues)
+        }],
+        structuredContent: { count: venues.length, venues: venues.map(toVenueOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// ベニュー詳細ツール
+server.registerTool(
+  "get-venue-details",
+  {
+    title: t().tools.getVenueDetails.title,
+    description: t().tools.getVenueDetails.description,
+    inputSchema: {
+      venueId: z.string().describe(t().tools.getVenueDetails.venueId),
+      tipsLimit: z.number().optional().default(5).describe(t().tools.getVenueDetails.tipsLimit),
+      photosLimit: z.number().optional().default(5).describe(t().tools.getVenueDetails.photosLimit)
+    },
+    outputSchema: venueDetailsOutputSchema.shape
+  },
+  async ({ venueId, tipsLimit, photosLimit }) => {
+    try {
+      const details = await foursquareAPI.getVenueDetails(venueId, { tipsLimit, photosLimit });
+
+      return {
+        content: [{
+          type: "text",
+          text: foursquareAPI.formatVenueDetails(details)
+        }],
+        structuredContent: toVenueDetailsOutput(details)
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックイン投稿ツール
+server.registerTool(
+  "create-checkin",
+  {
+    title: t().tools.createCheckin.title,
+    description: t().tools.createCheckin.description,
+    inputSchema: {
+      venueId: z.string().describe(t().tools.createCheckin.venueId),
+      shout: z.string().max(140).optional().describe(t().tools.createCheckin.shout),
+      ll: z.string().regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, t().common.llFormat).optional().describe(t().tools.createCheckin.ll),
+      broadcast: z.array(z.enum(["public", "private", "followers", "facebook", "twitter"])).optional().default(["public"]).describe(t().tools.createCheckin.broadcast),
+      dryRun: z.boolean().optional().default(false).describe(t().params.dryRunPost)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      checkin: checkinOutputSchema.optional()
+    }
+  },
+  async ({ venueId, shout, ll, broadcast, dryRun }) => {
+    const params = { venueId, shout, ll, broadcast: broadcast.join(',') };
+    const preview = foursquareAPI.formatPostPreview('/checkins/add', params);
+
+    if (dryRun) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.dryRunNotPosted(preview)
+        }],
+        structuredContent: { status: 'dryRun' }
+      };
+    }
+
+    try {
+      const status = await confirmAction(t().tools.createCheckin.confirm(preview));
+      if (status !== 'accepted') {
+        return confirmationFailedResult(status);
+      }
+
+      const checkin = await foursquareAPI.createCheckin(params);
+      await notifyCheckinsChanged();
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.createCheckin.done(foursquareAPI.formatCheckin(checkin))
+        }],
+        structuredContent: { status: 'done', checkin: toCheckinOutput(checkin) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックイン更新ツール
+server.registerTool(
+  "update-checkin",
+  {
+    title: t().tools.updateCheckin.title,
+    description: t().tools.updateCheckin.description,
+    inputSchema: {
+      checkinId: z.string().describe(t().tools.updateCheckin.checkinId),
+      shout: z.string().max(200).describe(t().tools.updateCheckin.shout),
+      dryRun: z.boolean().optional().default(false).describe(t().tools.updateCheckin.dryRun)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      checkin: checkinOutputSchema
+    }
+  },
+  async ({ checkinId, shout, dryRun }) => {
+    try {
+      const before = await foursquareAPI.getCheckin(checkinId);
+
+      if (!foursquareAPI.isCheckinEditable(before)) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.updateCheckin.expired(foursquareAPI.formatEditableUntil(before))
+          }],
+          isError: true
+        };
+      }
+
+      const diff = [
+        t().tools.updateCheckin.diffHeader(before.venue.name, foursquareAPI.formatCheckinDate(before)),
+        `- 💬 ${before.shout ?? t().tools.updateCheckin.noShout}`,
+        `+ 💬 ${shout}`
+      ].join('\n');
+
+      if (dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.updateCheckin.dryRunResult(diff)
+          }],
+          structuredContent: { status: 'dryRun', checkin: toCheckinOutput(before) }
+        };
+      }
+
+      const after = await foursquareAPI.updateCheckin(checkinId, { shout });
+      await checkinArchive.update(after);
+      await notifyCheckinsChanged(checkinId);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.updateCheckin.done(diff)
+        }],
+        structuredContent: { status: 'done', checkin: toCheckinOutput(after) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックイン削除ツール
+server.registerTool(
+  "delete-checkin",
+  {
+    title: t().tools.deleteCheckin.title,
+    description: t().tools.deleteCheckin.description,
+    inputSchema: {
+      checkinId: z.string().describe(t().tools.deleteCheckin.checkinId),
+      dryRun: z.boolean().optional().default(false).describe(t().tools.deleteCheckin.dryRun)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      checkin: checkinOutputSchema.optional()
+    }
+  },
+  async ({ checkinId, dryRun }) => {
+    try {
+      const checkin = await foursquareAPI.getCheckin(checkinId);
+
+      if (!foursquareAPI.isCheckinEditable(checkin)) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.deleteCheckin.expired(foursquareAPI.formatEditableUntil(checkin))
+          }],
+          isError: true
+        };
+      }
+
+      const target = foursquareAPI.formatCheckin(checkin);
+
+      if (dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.deleteCheckin.dryRunResult(target)
+          }],
+          structuredContent: { status: 'dryRun', checkin: toCheckinOutput(checkin) }
+        };
+      }
+
+      const status = await confirmAction(t().tools.deleteCheckin.confirm(target));
+      if (status !== 'accepted') {
+        return confirmationFailedResult(status);
+      }
+
+      await foursquareAPI.deleteCheckin(checkinId);
+      await checkinArchive.remove(checkinId);
+      await notifyCheckinsChanged(checkinId);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.deleteCheckin.done(target)
+        }],
+        structuredContent: { status: 'done', checkin: toCheckinOutput(checkin) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リスト一覧ツール
+server.registerTool(
+  "get-user-lists",
+  {
+    title: t().tools.getUserLists.title,
+    description: t().tools.getUserLists.description,
+    inputSchema: {
+      group: z.enum(["created", "edited", "followed", "friends", "suggested"]).optional().describe(t().tools.getUserLists.group),
+      limit: z.number().optional().describe(t().params.limit(200))
+    },
+    outputSchema: {
+      count: z.number(),
+      lists: z.array(listOutputSchema)
+    }
+  },
+  async ({ group, limit }) => {
+    try {
+      const lists = await foursquareAPI.getUserLists({ group, limit });
+
+      if (lists.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.getUserLists.notFound
+          }],
+          structuredContent: { count: 0, lists: [] }
+        };
+      }
+
+      const formattedLists = lists.map((list, index) =>
+        `${t().tools.getUserLists.header(index + 1)}\n${foursquareAPI.formatList(list)}`
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: `${t().tools.getUserLists.found(lists.length)}\n\n${formattedLists.join('\n\n')}`
+        }],
+        structuredContent: { count: lists.length, lists: lists.map(toListOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リスト詳細ツール
+server.registerTool(
+  "get-list",
+  {
+    title: t().tools.getList.title,
+    description: t().tools.getList.description,
+    inputSchema: {
+      listId: z.string().describe(t().params.listId)
+    },
+    outputSchema: {
+      list: listOutputSchema,
+      items: z.array(listItemOutputSchema)
+    }
+  },
+  async ({ listId }) => {
+    try {
+      const list = await foursquareAPI.getList(listId);
+
+      return {
+        content: [{
+          type: "text",
+          text: foursquareAPI.formatListDetails(list)
+        }],
+        structuredContent: { list: toListOutput(list), items: list.listItems?.items?.map(toListItemOutput) ?? [] }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リスト作成ツール
+server.registerTool(
+  "create-list",
+  {
+    title: t().tools.createList.title,
+    description: t().tools.createList.description,
+    inputSchema: {
+      name: z.string().describe(t().tools.createList.name),
+      description: z.string().optional().describe(t().tools.createList.listDescription)
+    },
+    outputSchema: {
+      list: listOutputSchema
+    }
+  },
+  async ({ name, description }) => {
+    try {
+      const list = await foursquareAPI.createList({ name, description });
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.createList.done(foursquareAPI.formatList(list))
+        }],
+        structuredContent: { list: toListOutput(list) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リスト更新ツール
+server.registerTool(
+  "update-list",
+  {
+    title: t().tools.updateList.title,
+    description: t().tools.updateList.description,
+    inputSchema: {
+      listId: z.string().describe(t().params.listId),
+      name: z.string().optional().describe(t().tools.updateList.name),
+      description: z.string().optional().describe(t().tools.updateList.listDescription)
+    },
+    outputSchema: {
+      list: listOutputSchema
+    }
+  },
+  async ({ listId, name, description }) => {
+    try {
+      const list = await foursquareAPI.updateList(listId, { name, description });
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.updateList.done(foursquareAPI.formatList(list))
+        }],
+        structuredContent: { list: toListOutput(list) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リスト削除ツール
+server.registerTool(
+  "delete-list",
+  {
+    title: t().tools.deleteList.title,
+    description: t().tools.deleteList.description,
+    inputSchema: {
+      listId: z.string().describe(t().params.listId)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      list: listOutputSchema.optional()
+    }
+  },
+  async ({ listId }) => {
+    try {
+      const list = await foursquareAPI.getList(listId);
+      const target = foursquareAPI.formatList(list);
+
+      const status = await confirmAction(t().tools.deleteList.confirm(target));
+      if (status !== 'accepted') {
+        return confirmationFailedResult(status);
+      }
+
+      await foursquareAPI.deleteList(listId);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.deleteList.done(target)
+        }],
+        structuredContent: { status: 'done', list: toListOutput(list) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リストへのスポット追加ツール
+server.registerTool(
+  "add-list-item",
+  {
+    title: t().tools.addListItem.title,
+    description: t().tools.addListItem.description,
+    inputSchema: {
+      listId: z.string().describe(t().params.listId),
+      venueId: z.string().describe(t().tools.addListItem.venueId),
+      text: z.string().optional().describe(t().tools.addListItem.text)
+    },
+    outputSchema: {
+      listId: z.string(),
+      item: listItemOutputSchema
+    }
+  },
+  async ({ listId, venueId, text }) => {
+    try {
+      const item = await foursquareAPI.addListItem(listId, { venueId, text });
+      const venueName = item.venue?.name ?? venueId;
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.addListItem.done(venueName)
+        }],
+        structuredContent: { listId, item: toListItemOutput(item) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リストからのスポット削除ツール
+server.registerTool(
+  "delete-list-item",
+  {
+    title: t().tools.deleteListItem.title,
+    description: t().tools.deleteListItem.description,
+    inputSchema: {
+      listId: z.string().describe(t().params.listId),
+      venueId: z.string().describe(t().tools.deleteListItem.venueId)
+    },
+    outputSchema: {
+      listId: z.string(),
+      venueId: z.string()
+    }
+  },
+  async ({ listId, venueId }) => {
+    try {
+      await foursquareAPI.deleteListItem(listId, venueId);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.deleteListItem.done(venueId)
+        }],
+        structuredContent: { listId, venueId }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// リストへのおすすめスポットツール
+server.registerTool(
+  "suggest-list-venues",
+  {
+    title: t().tools.suggestListVenues.title,
+    description: t().tools.suggestListVenues.description,
+    inputSchema: {
+      listId: z.string().describe(t().params.listId),
+      category: z.string().optional().describe(t().params.category)
+    },
+    outputSchema: {
+      count: z.number(),
+      venues: z.array(venueOutputSchema)
+    }
+  },
+  async ({ listId, category }) => {
+    try {
+      const venues = await filterVenues(await foursquareAPI.suggestListVenues(listId), category);
+
+      if (venues.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.suggestListVenues.notFound
+          }],
+          structuredContent: { count: 0, venues: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatVenuesText(venues)
+        }],
+        structuredContent: { count: venues.length, venues: venues.map(toVenueOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// 自分のTips取得ツール
+server.registerTool(
+  "get-user-tips",
+  {
+    title: t().tools.getUserTips.title,
+    description: t().tools.getUserTips.description,
+    inputSchema: {
+      limit: z.number().optional().default(30).describe(t().params.limit(500)),
+      offset: z.number().optional().describe(t().tools.getUserTips.offset),
+      venueId: z.string().optional().describe(t().tools.getUserTips.venueId),
+      categoryId: z.string().optional().describe(t().tools.getUserTips.categoryId)
+    },
+    outputSchema: {
+      count: z.number(),
+      tips: z.array(tipOutputSchema)
+    }
+  },
+  async ({ limit, offset, venueId, categoryId }) => {
+    try {
+      const tips = await foursquareAPI.getUserTips({ limit, offset, venueId, categoryId });
+
+      if (tips.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tips.notFound
+          }],
+          structuredContent: { count: 0, tips: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatTipsText(tips)
+        }],
+        structuredContent: { count: tips.length, tips: tips.map(toTipOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// ベニューのTips取得ツール
+server.registerTool(
+  "get-venue-tips",
+  {
+    title: t().tools.getVenueTips.title,
+    description: t().tools.getVenueTips.description,
+    inputSchema: {
+      venueId: z.string().describe(t().params.venueId),
+      sort: z.enum(["popular", "recent"]).optional().default("popular").describe(t().tools.getVenueTips.sort),
+      limit: z.number().optional().default(10).describe(t().tools.getVenueTips.limit)
+    },
+    outputSchema: {
+      count: z.number(),
+      tips: z.array(tipOutputSchema)
+    }
+  },
+  async ({ venueId, sort, limit }) => {
+    try {
+      const tips = await foursquareAPI.getVenueTips(venueId, { sort, limit });
+
+      if (tips.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tips.notFound
+          }],
+          structuredContent: { count: 0, tips: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatTipsText(tips)
+        }],
+        structuredContent: { count: tips.length, tips: tips.map(toTipOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tip詳細ツール
+server.registerTool(
+  "get-tip",
+  {
+    title: t().tools.getTip.title,
+    description: t().tools.getTip.description,
+    inputSchema: {
+      tipId: z.string().describe(t().params.tipId)
+    },
+    outputSchema: {
+      tip: tipOutputSchema
+    }
+  },
+  async ({ tipId }) => {
+    try {
+      const tip = await foursquareAPI.getTip(tipId);
+
+      return {
+        content: [{
+          type: "text",
+          text: foursquareAPI.formatTip(tip)
+        }],
+        structuredContent: { tip: toTipOutput(tip) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tip投稿ツール
+server.registerTool(
+  "add-tip",
+  {
+    title: t().tools.addTip.title,
+    description: t().tools.addTip.description,
+    inputSchema: {
+      venueId: z.string().describe(t().tools.addTip.venueId),
+      text: z.string().max(200).describe(t().tools.addTip.text),
+      dryRun: z.boolean().optional().default(false).describe(t().params.dryRunPost)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      tip: tipOutputSchema.optional()
+    }
+  },
+  async ({ venueId, text, dryRun }) => {
+    try {
+      const preview = foursquareAPI.formatPostPreview('/tips/add', { venueId, text });
+
+      if (dryRun) {
+        return {
+          content: [{
+            type: "text",
+            text: t().common.dryRunNotPosted(preview)
+          }],
+          structuredContent: { status: 'dryRun' }
+        };
+      }
+
+      const status = await confirmAction(t().tools.addTip.confirm(preview));
+      if (status !== 'accepted') {
+        return confirmationFailedResult(status);
+      }
+
+      const tip = await foursquareAPI.addTip({ venueId, text });
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.addTip.done(foursquareAPI.formatTip(tip))
+        }],
+        structuredContent: { status: 'done', tip: toTipOutput(tip) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tip投票ツール
+server.registerTool(
+  "vote-tip",
+  {
+    title: t().tools.voteTip.title,
+    description: t().tools.voteTip.description,
+    inputSchema: {
+      tipId: z.string().describe(t().params.tipId),
+      upvote: z.boolean().optional().default(true).describe(t().tools.voteTip.upvote)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      tip: tipOutputSchema.optional()
+    }
+  },
+  async ({ tipId, upvote }) => {
+    try {
+      const tip = await foursquareAPI.getTip(tipId);
+      const label = upvote ? t().tools.voteTip.upvoteLabel : t().tools.voteTip.downvoteLabel;
+
+      const status = await confirmAction(t().tools.voteTip.confirm(label, foursquareAPI.formatTip(tip)));
+      if (status !== 'accepted') {
+        return confirmationFailedResult(status);
+      }
+
+      const voted = await foursquareAPI.voteTip(tipId, upvote);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.voteTip.done(label, foursquareAPI.formatTip(voted))
+        }],
+        structuredContent: { status: 'done', tip: toTipOutput(voted) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tip削除ツール
+server.registerTool(
+  "delete-tip",
+  {
+    title: t().tools.deleteTip.title,
+    description: t().tools.deleteTip.description,
+    inputSchema: {
+      tipId: z.string().describe(t().params.tipId)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      tip: tipOutputSchema.optional()
+    }
+  },
+  async ({ tipId }) => {
+    try {
+      const tip = await foursquareAPI.getTip(tipId);
+      const target = foursquareAPI.formatTip(tip);
+
+      const status = await confirmAction(t().tools.deleteTip.confirm(target));
+      if (status !== 'accepted') {
+        return confirmationFailedResult(status);
+      }
+
+      await foursquareAPI.deleteTip(tipId);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.deleteTip.done(target)
+        }],
+        structuredContent: { status: 'done', tip: toTipOutput(tip) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tip報告ツール
+server.registerTool(
+  "flag-tip",
+  {
+    title: t().tools.flagTip.title,
+    description: t().tools.flagTip.description,
+    inputSchema: {
+      tipId: z.string().describe(t().params.tipId),
+      problem: z.enum(["spam", "offensive", "nolongerrelevant", "negative", "badtaste"]).describe(t().tools.flagTip.problem)
+    },
+    outputSchema: {
+      status: mutationStatusSchema,
+      tip: tipOutputSchema.optional()
+    }
+  },
+  async ({ tipId, problem }) => {
+    try {
+      const tip = await foursquareAPI.getTip(tipId);
+      const target = foursquareAPI.formatTip(tip);
+
+      const status = await confirmAction(t().tools.flagTip.confirm(problem, target));
+      if (status !== 'accepted') {
+        return confirmationFailedResult(status);
+      }
+
+      await foursquareAPI.flagTip(tipId, problem);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.flagTip.done(target)
+        }],
+        structuredContent: { status: 'done', tip: toTipOutput(tip) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// テイスト一覧ツール
+server.registerTool(
+  "get-user-tastes",
+  {
+    title: t().tools.getUserTastes.title,
+    description: t().tools.getUserTastes.description,
+    inputSchema: {},
+    outputSchema: {
+      count: z.number(),
+      tastes: z.array(tasteOutputSchema)
+    }
+  },
+  async () => {
+    try {
+      const tastes = await foursquareAPI.getUserTastes();
+
+      if (tastes.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tastes.notFound
+          }],
+          structuredContent: { count: 0, tastes: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `${t().tools.getUserTastes.found(tastes.length)}\n\n${formatTastesText(tastes)}`
+        }],
+        structuredContent: { count: tastes.length, tastes: tastes.map(toTasteOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// テイスト追加ツール
+server.registerTool(
+  "add-tastes",
+  {
+    title: t().tools.addTastes.title,
+    description: t().tools.addTastes.description,
+    inputSchema: {
+      tasteIds: z.array(z.string()).min(1).describe(t().tools.addTastes.tasteIds)
+    },
+    outputSchema: {
+      tasteIds: z.array(z.string())
+    }
+  },
+  async ({ tasteIds }) => {
+    try {
+      await foursquareAPI.addTastes(tasteIds);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.addTastes.done(tasteIds.length)
+        }],
+        structuredContent: { tasteIds }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// テイスト削除ツール
+server.registerTool(
+  "delete-taste",
+  {
+    title: t().tools.deleteTaste.title,
+    description: t().tools.deleteTaste.description,
+    inputSchema: {
+      tasteId: z.string().describe(t().tools.deleteTaste.tasteId)
+    },
+    outputSchema: {
+      tasteId: z.string()
+    }
+  },
+  async ({ tasteId }) => {
+    try {
+      await foursquareAPI.deleteTaste(tasteId);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.deleteTaste.done(tasteId)
+        }],
+        structuredContent: { tasteId }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// テイスト検索ツール
+server.registerTool(
+  "autocomplete-tastes",
+  {
+    title: t().tools.autocompleteTastes.title,
+    description: t().tools.autocompleteTastes.description,
+    inputSchema: {
+      query: z.string().describe(t().params.query),
+      limit: z.number().optional().default(10).describe(t().params.limit(50))
+    },
+    outputSchema: {
+      count: z.number(),
+      tastes: z.array(tasteOutputSchema)
+    }
+  },
+  async ({ query, limit }) => {
+    try {
+      const tastes = await foursquareAPI.autocompleteTastes(query, limit);
+
+      if (tastes.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tastes.notFound
+          }],
+          structuredContent: { count: 0, tastes: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatTastesText(tastes)
+        }],
+        structuredContent: { count: tastes.length, tastes: tastes.map(toTasteOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// おすすめテイストツール
+server.registerTool(
+  "get-taste-suggestions",
+  {
+    title: t().tools.getTasteSuggestions.title,
+    description: t().tools.getTasteSuggestions.description,
+    inputSchema: {
+      limit: z.number().optional().default(10).describe(t().params.limit(50))
+    },
+    outputSchema: {
+      count: z.number(),
+      tastes: z.array(tasteOutputSchema)
+    }
+  },
+  async ({ limit }) => {
+    try {
+      const tastes = await foursquareAPI.getTasteSuggestions({ limit });
+
+      if (tastes.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tastes.notFound
+          }],
+          structuredContent: { count: 0, tastes: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatTastesText(tastes)
+        }],
+        structuredContent: { count: tastes.length, tastes: tastes.map(toTasteOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックイン履歴からのテイスト提案ツール
+server.registerTool(
+  "suggest-tastes-from-checkins",
+  {
+    title: t().tools.suggestTastesFromCheckins.title,
+    description: t().tools.suggestTastesFromCheckins.description,
+    inputSchema: {
+      limit: z.number().optional().default(100).describe(t().tools.suggestTastesFromCheckins.limit),
+      topCategories: z.number().optional().default(5).describe(t().tools.suggestTastesFromCheckins.topCategories),
+      source: z.enum(["api", "archive"]).optional().default("api").describe(t().params.source)
+    },
+    outputSchema: {
+      checkinCount: z.number(),
+      categories: z.array(z.object({
+        name: z.string(),
+        count: z.number(),
+        candidates: z.array(tasteOutputSchema)
+      }))
+    }
+  },
+  async ({ limit, topCategories, source }) => {
+    try {
+      const checkins = await getRecentCheckins({ limit, source });
+      const categories = countByCategory(checkins).slice(0, topCategories);
+
+      if (categories.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.suggestTastesFromCheckins.notFound
+          }],
+          structuredContent: { checkinCount: checkins.length, categories: [] }
+        };
+      }
+
+      const registered = new Set((await foursquareAPI.getUserTastes()).map(taste => taste.id));
+
+      const suggestions = await Promise.all(categories.map(async ({ name, count }) => {
+        const candidates = (await foursquareAPI.autocompleteTastes(tasteKeyword(name), 5))
+          .filter(taste => !registered.has(taste.id));
+        return { name, count, candidates };
+      }));
+      const sections = suggestions.map(({ name, count, candidates }) => {
+        const body = candidates.length > 0 ? formatTastesText(candidates) : t().tools.suggestTastesFromCheckins.noCandidates;
+        return t().tools.suggestTastesFromCheckins.section(name, count, body);
+      });
+
+      return {
+        content: [{
+          type: "text",
+          text: `${t().tools.suggestTastesFromCheckins.intro(checkins.length)}\n\n${sections.join('\n\n')}`
+        }],
+        structuredContent: {
+          checkinCount: checkins.length,
+          categories: suggestions.map(({ name, count, candidates }) => ({
+            name,
+            count,
+            candidates: candidates.map(toTasteOutput)
+          }))
+        }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// おすすめベニューツール
+server.registerTool(
+  "recommend-venues",
+  {
+    title: t().tools.recommendVenues.title,
+    description: t().tools.recommendVenues.description,
+    inputSchema: {
+      ll: z.string().regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, t().common.llFormat).optional().describe(t().params.ll),
+      near: z.string().optional().describe(t().params.near),
+      query: z.string().optional().describe(t().tools.recommendVenues.query),
+      radius: z.number().optional().describe(t().params.radius),
+      section: z.enum(["food", "drinks", "coffee", "shops", "arts", "outdoors", "sights", "trending", "topPicks"]).optional().describe(t().tools.recommendVenues.section),
+      price: z.array(z.number().int().min(1).max(4)).optional().describe(t().tools.recommendVenues.price),
+      openNow: z.boolean().optional().default(false).describe(t().tools.recommendVenues.openNow),
+      limit: z.number().optional().default(10).describe(t().params.limit(50)),
+      source: z.enum(["api", "archive"]).optional().default("archive").describe(t().params.historySource),
+      category: z.string().optional().describe(t().params.category)
+    },
+    outputSchema: {
+      count: z.number(),
+      venues: z.array(visitedVenueOutputSchema)
+    }
+  },
+  async ({ ll, near, query, radius, section, price, openNow, limit, source, category }) => {
+    try {
+      const history = await getCheckinHistory({ source });
+
+      // 場所の指定が無ければ最新チェックインの位置を使う
+      let location = ll;
+      if (!location && !near) {
+        const latest = history[0];
+        if (!latest) {
+          return {
+            content: [{
+              type: "text",
+              text: t().common.noHistoryForLocation
+            }],
+            isError: true
+          };
+        }
+        location = `${latest.venue.location.lat},${latest.venue.location.lng}`;
+      }
+
+      const venues = await filterVenues(await foursquareAPI.getVenueRecommendations({
+        ll: location,
+        near,
+        query,
+        radius,
+        section,
+        price,
+        openNow,
+        limit
+      }), category);
+
+      if (venues.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.recommendVenues.notFound
+          }],
+          structuredContent: { count: 0, venues: [] }
+        };
+      }
+
+      const visits = countVisitsByVenue(history);
+
+      return {
+        content: [{
+          type: "text",
+          text: formatVenuesWithVisitsText(venues, visits)
+        }],
+        structuredContent: { count: venues.length, venues: venues.map(venue => toVisitedVenueOutput(venue, visits.get(venue.id))) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// ベニュー名オートコンプリートツール
+server.registerTool(
+  "autocomplete-venues",
+  {
+    title: t().tools.autocompleteVenues.title,
+    description: t().tools.autocompleteVenues.description,
+    inputSchema: {
+      query: z.string().describe(t().tools.autocompleteVenues.query),
+      ll: z.string().regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, t().common.llFormat).optional().describe(t().tools.autocompleteVenues.ll),
+      near: z.string().optional().describe(t().tools.autocompleteVenues.near),
+      radius: z.number().optional().describe(t().tools.autocompleteVenues.radius),
+      category: z.string().optional().describe(t().params.category)
+    },
+    outputSchema: {
+      count: z.number(),
+      venues: z.array(venueOutputSchema)
+    }
+  },
+  async ({ query, ll, near, radius, category }) => {
+    try {
+      const venues = await filterVenues(await foursquareAPI.autocompleteVenues({ query, ll, near, radius }), category);
+
+      if (venues.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().venues.notFound
+          }],
+          structuredContent: { count: 0, venues: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatVenuesText(venues)
+        }],
+        structuredContent: { count: venues.length, venues: venues.map(toVenueOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// 地名オートコンプリートツール
+server.registerTool(
+  "autocomplete-places",
+  {
+    title: t().tools.autocompletePlaces.title,
+    description: t().tools.autocompletePlaces.description,
+    inputSchema: {
+      query: z.string().describe(t().tools.autocompletePlaces.query)
+    },
+    outputSchema: {
+      count: z.number(),
+      places: z.array(placeOutputSchema)
+    }
+  },
+  async ({ query }) => {
+    try {
+      const places = await foursquareAPI.geoAutocomplete(query);
+
+      if (places.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.autocompletePlaces.notFound
+          }],
+          structuredContent: { count: 0, places: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatPlacesText(places)
+        }],
+        structuredContent: { count: places.length, places: places.map(toPlaceOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// トレンドベニューツール
+server.registerTool(
+  "trending-venues",
+  {
+    title: t().tools.trendingVenues.title,
+    description: t().tools.trendingVenues.description,
+    inputSchema: {
+      ll: z.string().regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, t().common.llFormat).optional().describe(t().params.ll),
+      near: z.string().optional().describe(t().params.near),
+      radius: z.number().optional().describe(t().params.radius),
+      limit: z.number().optional().default(10).describe(t().params.limit(50)),
+      source: z.enum(["api", "archive"]).optional().default("api").describe(t().tools.trendingVenues.source),
+      category: z.string().optional().describe(t().params.category)
+    },
+    outputSchema: {
+      count: z.number(),
+      venues: z.array(venueOutputSchema)
+    }
+  },
+  async ({ ll, near, radius, limit, source, category }) => {
+    try {
+      // 場所の指定が無ければ最新チェックインの位置を使う
+      let location = ll;
+      if (!location && !near) {
+        const [latest] = await getRecentCheckins({ limit: 1, source });
+        if (!latest) {
+          return {
+            content: [{
+              type: "text",
+              text: t().common.noHistoryForLocation
+            }],
+            isError: true
+          };
+        }
+        location = `${latest.venue.location.lat},${latest.venue.location.lng}`;
+      }
+
+      const venues = await filterVenues(await foursquareAPI.getTrendingVenues({ ll: location, near, radius, limit }), category);
+
+      if (venues.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.trendingVenues.notFound
+          }],
+          structuredContent: { count: 0, venues: [] }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatVenuesText(venues)
+        }],
+        structuredContent: { count: venues.length, venues: venues.map(toVenueOutput) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// 関連ベニューツール
+server.registerTool(
+  "related-venues",
+  {
+    title: t().tools.relatedVenues.title,
+    description: t().tools.relatedVenues.description,
+    inputSchema: {
+      venueId: z.string().describe(t().tools.relatedVenues.venueId),
+      source: z.enum(["api", "archive"]).optional().default("archive").describe(t().params.historySource),
+      category: z.string().optional().describe(t().params.category)
+    },
+    outputSchema: {
+      count: z.number(),
+      venues: z.array(visitedVenueOutputSchema)
+    }
+  },
+  async ({ venueId, source, category }) => {
+    try {
+      const [related, history] = await Promise.all([
+        foursquareAPI.getRelatedVenues(venueId),
+        getCheckinHistory({ source })
+      ]);
+      const venues = await filterVenues(related, category);
+
+      if (venues.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.relatedVenues.notFound
+          }],
+          structuredContent: { count: 0, venues: [] }
+        };
+      }
+
+      const visits = countVisitsByVenue(history);
+
+      return {
+        content: [{
+          type: "text",
+          text: formatVenuesWithVisitsText(venues, visits)
+        }],
+        structuredContent: { count: venues.length, venues: venues.map(venue => toVisitedVenueOutput(venue, visits.get(venue.id))) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// カテゴリー一覧ツール
+server.registerTool(
+  "list-categories",
+  {
+    title: t().tools.listCategories.title,
+    description: t().tools.listCategories.description,
+    inputSchema: {
+      query: z.string().optional().describe(t().tools.listCategories.query),
+      depth: z.number().optional().default(2).describe(t().tools.listCategories.depth),
+      refresh: z.boolean().optional().default(false).describe(t().tools.listCategories.refresh)
+    },
+    outputSchema: {
+      count: z.number(),
+      fetchedAt: z.string().optional(),
+      categories: z.array(categoryTreeOutputSchema)
+    }
+  },
+  async ({ query, depth, refresh }) => {
+    try {
+      const categories = await categoryTaxonomy.getCategories({ refresh });
+      const nodes = query ? await categoryTaxonomy.findCategories(query) : categories;
+
+      if (nodes.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.listCategories.notFound
+          }],
+          structuredContent: { count: 0, categories: [] }
+        };
+      }
+
+      const fetchedAt = categoryTaxonomy.getFetchedAt();
+      const header = fetchedAt
+        ? `${t().tools.listCategories.foundWithDate(nodes.length, timestampToDate(Math.floor(fetchedAt / 1000)))}\n\n`
+        : `${t().tools.listCategories.found(nodes.length)}\n\n`;
+
+      return {
+        content: [{
+          type: "text",
+          text: header + formatCategoryTree(nodes, depth).join('\n')
+        }],
+        structuredContent: { count: nodes.length, fetchedAt: fetchedAt ? new Date(fetchedAt).toISOString() : undefined, categories: toCategoryTreeOutputs(nodes, depth) }
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: t().common.error(error.message)
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックイン統計ツール
+server.registerTool(
+  "checkin-stats",
+  {
+    title: t().tools.checkinStats.title,
+    description: t().tools.checkinStats.description,
+    inputSchema: {
+      from: dateArg(t().params.from).optional(),
+      to: dateArg(t().params.to).optional(),
+      category: z.string().optional().describe(t().params.category),
+      top: z.number().optional().default(10).describe(t().tools.checkinStats.top),
+      source: z.enum(["api", "archive"]).optional().default("archive").describe(t().params.source),
+      resume: z.boolean().optional().default(false).describe(t().params.resume)
+    },
+    outputSchema: checkinStatsOutputSchema.shape
+  },
+  async ({ from, to, category, top, source, resume }, extra) => {
+    try {
+      const checkins = await filterCheckins(await getCheckinHistory({
+        ...dateRangeToTimestamps(from, to),
+        source,
+        checkpoint: true,
+        resume,
+        onProgress: createProgressReporter(extra)
+      }), { category });
+      const stats = computeCheckinStats(checkins);
+
+      return {
+        content: [{
+          type: "text",
+          text: stats.total === 0 ? t().tools.checkinStats.notFound : formatCheckinStatsText(stats, top)
+        }],
+        structuredContent: { ...stats }
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return {
+          content: [{
+            type: "text",
+            text: `${t().common.rateLimited(error.message)}\n\n${t().tools.checkinStats.resumeHint}`
+          }],
+          isError: true
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// 位置によるチェックイン検索ツール
+server.registerTool(
+  "search-checkins-by-location",
+  {
+    title: t().tools.searchCheckinsByLocation.title,
+    description: t().tools.searchCheckinsByLocation.description,
+    inputSchema: {
+      mode: z.enum(["radius", "bbox", "nearest"]).optional().default("radius").describe(t().tools.searchCheckinsByLocation.mode),
+      ll: z.string()
+        .regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, t().common.llFormat)
+        .refine(value => isValidLatLng(parseLatLng(value)), t().common.llRange)
+        .optional()
+        .describe(t().tools.searchCheckinsByLocation.ll),
+      radius: z.number().optional().default(500).describe(t().tools.searchCheckinsByLocation.radius),
+      bbox: z.string()
+        .regex(/^(-?\d+(\.\d+)?,){3}-?\d+(\.\d+)?$/, t().common.bboxFormat)
+        .refine(value => isValidBoundingBox(parseBoundingBox(value)), t().common.bboxRange)
+        .optional()
+        .describe(t().tools.searchCheckinsByLocation.bbox),
+      limit: z.number().optional().default(20).describe(t().tools.searchCheckinsByLocation.limit),
+      category: z.string().optional().describe(t().params.category),
+      from: dateArg(t().params.from).optional(),
+      to: dateArg(t().params.to).optional(),
+      source: z.enum(["api", "archive"]).optional().default("archive").describe(t().params.source),
+      resume: z.boolean().optional().default(false).describe(t().params.resume)
+    },
+    outputSchema: {
+      mode: z.enum(["radius", "bbox", "nearest"]),
+      origin: z.object({ lat: z.number(), lng: z.number() }),
+      total: z.number(),
+      results: z.array(z.object({
+        distance: z.number(),
+        visitCount: z.number().optional(),
+        checkin: checkinOutputSchema
+      }))
+    }
+  },
+  async ({ mode, ll, radius, bbox, limit, category, from, to, source, resume }, extra) => {
+    if (mode === 'bbox' && !bbox) {
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.searchCheckinsByLocation.bboxRequired
+        }],
+        isError: true
+      };
+    }
+
+    try {
+      const checkins = await filterCheckins(await getCheckinHistory({
+        ...dateRangeToTimestamps(from, to),
+        source,
+        checkpoint: true,
+        resume,
+        onProgress: createProgressReporter(extra)
+      }), { category });
+
+      // 基準地点の指定が無ければ、範囲の中心または最新チェックインの位置を使う
+      let origin = ll ? parseLatLng(ll) : undefined;
+      if (!origin && mode === 'bbox') {
+        origin = getBoundingBoxCenter(parseBoundingBox(bbox!));
+      }
+      if (!origin) {
+        const [latest] = await getRecentCheckins({ limit: 1, source });
+        if (!latest) {
+          return {
+            content: [{
+              type: "text",
+              text: t().common.noHistoryForLocation
+            }],
+            isError: true
+          };
+        }
+        origin = { lat: latest.venue.location.lat, lng: latest.venue.location.lng };
+      }
+
+      const originText = `${origin.lat},${origin.lng}`;
+      let matches: CheckinDistance[];
+      let summary: string;
+      if (mode === 'radius') {
+        matches = findCheckinsWithinRadius(checkins, origin, radius);
+        summary = t().tools.searchCheckinsByLocation.withinRadius(originText, formatDistance(radius), matches.length);
+      } else if (mode === 'bbox') {
+        matches = findCheckinsInBoundingBox(checkins, parseBoundingBox(bbox!), origin);
+        summary = t().tools.searchCheckinsByLocation.inBoundingBox(matches.length);
+      } else {
+        matches = findNearestVenues(checkins, origin);
+        summary = t().tools.searchCheckinsByLocation.nearest(originText, matches.length);
+      }
+      const results = matches.slice(0, limit);
+
+      return {
+        content: [{
+          type: "text",
+          text: matches.length === 0 ? t().checkins.notFound : formatCheckinDistancesText(summary, results)
+        }],
+        structuredContent: {
+          mode,
+          origin,
+          total: matches.length,
+          results: results.map(({ checkin, distance, visitCount }) => ({
+            distance: Math.round(distance),
+            visitCount,
+            checkin: toCheckinOutput(checkin)
+          }))
+        }
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return {
+          content: [{
+            type: "text",
+            text: `${t().common.rateLimited(error.message)}\n\n${t().tools.searchCheckinsByLocation.resumeHint}`
+          }],
+          isError: true
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックイン全文検索ツール
+server.registerTool(
+  "search-my-checkins",
+  {
+    title: t().tools.searchMyCheckins.title,
+    description: t().tools.searchMyCheckins.description,
+    inputSchema: {
+      query: z.string().min(1).describe(t().tools.searchMyCheckins.query),
+      limit: z.number().optional().default(20).describe(t().tools.searchMyCheckins.limit),
+      category: z.string().optional().describe(t().params.category),
+      from: dateArg(t().params.from).optional(),
+      to: dateArg(t().params.to).optional(),
+      source: z.enum(["api", "archive"]).optional().default("archive").describe(t().params.source),
+      resume: z.boolean().optional().default(false).describe(t().params.resume)
+    },
+    outputSchema: {
+      query: z.string(),
+      total: z.number(),
+      results: z.array(z.object({
+        score: z.number(),
+        highlights: z.array(z.object({
+          field: z.enum(["venue", "category", "shout", "address"]),
+          snippet: z.string()
+        })),
+        checkin: checkinOutputSchema
+      }))
+    }
+  },
+  async ({ query, limit, category, from, to, source, resume }, extra) => {
+    try {
+      const checkins = await filterCheckins(await getCheckinHistory({
+        ...dateRangeToTimestamps(from, to),
+        source,
+        checkpoint: true,
+        resume,
+        onProgress: createProgressReporter(extra)
+      }), { category });
+      const matches = searchCheckins(checkins, query);
+      const results = matches.slice(0, limit);
+
+      return {
+        content: [{
+          type: "text",
+          text: matches.length === 0
+            ? t().checkins.notFound
+            : formatSearchResultsText(t().tools.searchMyCheckins.found(query, matches.length), results)
+        }],
+        structuredContent: {
+          query,
+          total: matches.length,
+          results: results.map(({ checkin, score, highlights }) => ({
+            score: Math.round(score * 1000) / 1000,
+            highlights,
+            checkin: toCheckinOutput(checkin)
+          }))
+        }
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return {
+          content: [{
+            type: "text",
+            text: `${t().common.rateLimited(error.message)}\n\n${t().tools.searchMyCheckins.resumeHint}`
+          }],
+          isError: true
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックインエクスポートツール
+server.registerTool(
+  "export-checkins",
+  {
+    title: t().tools.exportCheckins.title,
+    description: t().tools.exportCheckins.description,
+    inputSchema: {
+      format: z.enum(EXPORT_FORMATS).optional().default("geojson").describe(t().tools.exportCheckins.format),
+      from: dateArg(t().params.from).optional(),
+      to: dateArg(t().params.to).optional(),
+      category: z.string().optional().describe(t().params.category),
+      source: z.enum(["api", "archive"]).optional().default("archive").describe(t().params.source),
+      resume: z.boolean().optional().default(false).describe(t().params.resume),
+      path: z.string().optional().describe(t().tools.exportCheckins.path),
+      overwrite: z.boolean().optional().default(false).describe(t().params.overwrite)
+    },
+    outputSchema: {
+      format: z.enum(EXPORT_FORMATS),
+      count: z.number(),
+      path: z.string().optional()
+    }
+  },
+  async ({ format, from, to, category, source, resume, path, overwrite }, extra) => {
+    try {
+      const checkins = await filterCheckins(await getCheckinHistory({
+        ...dateRangeToTimestamps(from, to),
+        source,
+        sort: 'oldestfirst',
+        checkpoint: true,
+        resume,
+        onProgress: createProgressReporter(extra)
+      }), { category });
+      const content = exportCheckins(checkins, format);
+
+      if (!path) {
+        return {
+          content: [{
+            type: "text",
+            text: content
+          }],
+          structuredContent: { format, count: checkins.length }
+        };
+      }
+
+      const writtenPath = await writeExportFile(path, content, overwrite);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.exportCheckins.written(checkins.length, writtenPath)
+        }],
+        structuredContent: { format, count: checkins.length, path: writtenPath }
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return {
+          content: [{
+            type: "text",
+            text: `${t().common.rateLimited(error.message)}\n\n${t().tools.exportCheckins.resumeHint}`
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof FileExistsError) {
+        return {
+          content: [{
+            type: "text",
+            text: t().common.fileExists(error.path)
+          }],
+          isError: true
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// 1年のふりかえりレポート作成ツール
+server.registerTool(
+  "generate-review",
+  {
+    title: t().tools.generateReview.title,
+    description: t().tools.generateReview.description,
+    inputSchema: {
+      year: z.number().int().optional().describe(t().tools.generateReview.year),
+      format: z.enum(REVIEW_FORMATS).optional().default("markdown").describe(t().tools.generateReview.format),
+      top: z.number().optional().default(10).describe(t().tools.generateReview.top),
+      source: z.enum(["api", "archive"]).optional().default("archive").describe(t().params.source),
+      resume: z.boolean().optional().default(false).describe(t().params.resume),
+      path: z.string().optional().describe(t().tools.generateReview.path),
+      overwrite: z.boolean().optional().default(false).describe(t().params.overwrite)
+    },
+    outputSchema: {
+      ...yearReviewOutputSchema.shape,
+      format: z.enum(REVIEW_FORMATS),
+      path: z.string().optional()
+    }
+  },
+  async ({ year = new Date().getFullYear(), format, top, source, resume, path, overwrite }, extra) => {
+    try {
+      // 新しく訪れた場所の判定に前年までの履歴も使う
+      // 現地時刻では年内のチェックインを取りこぼさないよう、翌年の元日まで取得する
+      const review = computeYearReview(await getCheckinHistory({
+        ...dateRangeToTimestamps(undefined, `${year + 1}-01-01`),
+        source,
+        checkpoint: true,
+        resume,
+        onProgress: createProgressReporter(extra)
+      }), year);
+
+      if (review.total === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: t().tools.generateReview.notFound(year)
+          }],
+          structuredContent: { ...review, format }
+        };
+      }
+
+      const content = renderYearReview(review, format, top);
+
+      if (!path) {
+        return {
+          content: [{
+            type: "text",
+            text: content
+          }],
+          structuredContent: { ...review, format }
+        };
+      }
+
+      const writtenPath = await writeExportFile(path, content, overwrite);
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.generateReview.written(year, writtenPath)
+        }],
+        structuredContent: { ...review, format, path: writtenPath }
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return {
+          content: [{
+            type: "text",
+            text: `${t().common.rateLimited(error.message)}\n\n${t().tools.generateReview.resumeHint}`
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof FileExistsError) {
+        return {
+          content: [{
+            type: "text",
+            text: t().common.fileExists(error.path)
+          }],
+          isError: true
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// チェックイン同期ツール
+server.registerTool(
+  "sync-checkins",
+  {
+    title: t().tools.syncCheckins.title,
+    description: t().tools.syncCheckins.description,
+    inputSchema: {
+      resume: z.boolean().optional().default(false).describe(t().params.resume)
+    },
+    outputSchema: {
+      added: z.number(),
+      total: z.number()
+    }
+  },
+  async ({ resume }, extra) => {
+    try {
+      const { added, total } = await checkinArchive.sync({
+        resume,
+        onProgress: createProgressReporter(extra)
+      });
+
+      if (added > 0) {
+        await notifyCheckinsChanged();
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: t().tools.syncCheckins.done(added, total)
+        }],
+        structuredContent: { added, total }
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return {
+          content: [{
+            type: "text",
+            text: `${t().common.rateLimited(error.message)}\n\n${t().tools.syncCheckins.resumeHint}`
+          }],
+          isError: true
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `${t().common.error(error.message)}\n\n${t().common.authenticateHint}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// 最近のチェックインリソース
+server.registerResource(
+  "recent-checkins",
+  RECENT_CHECKINS_URI,
+  {
+    title: t().resources.recentCheckins.title,
+    description: t().resources.recentCheckins.description,
+    mimeType: "text/plain"
+  },
+  async (uri) => {
+    let checkins: Checkin[];
+    let fromArchive = false;
+    try {
+      checkins = await foursquareAPI.getUserCheckins({ limit: 20 });
+    } catch (error) {
+      // 未認証・オフライン・レート制限時はアーカイブから応答する
+      if (await checkinArchive.isEmpty()) {
+        throw error;
+      }
+      checkins = await checkinArchive.query({ limit: 20 });
+      fromArchive = true;
+    }
+
+    const text = checkins.length === 0 ? t().checkins.notFound : formatCheckinsText(checkins);
+
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: "text/plain",
+        text: fromArchive ? `${t().resources.recentCheckins.fromArchive}\n\n${text}` : text
+      }]
+    };
+  }
+);
+
+// チェックイン詳細リソース（一覧は下のページング対応ハンドラで提供）
+server.registerResource(
+  "checkin",
+  new ResourceTemplate("foursquare://checkins/{checkinId}", { list: undefined }),
+  {
+    title: t().resources.checkin.title,
+    description: t().resources.checkin.description,
+    mimeType: "text/plain"
+  },
+  async (uri, { checkinId }) => {
+    const id = String(checkinId);
+    const archived = (await checkinArchive.load()).find(checkin => checkin.id === id);
+    const checkin = archived ?? await foursquareAPI.getCheckin(id);
+
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: "text/plain",
+        text: foursquareAPI.formatCheckin(checkin)
+      }]
+    };
+  }
+);
+
+// ベニュー詳細リソース
+server.registerResource(
+  "venue",
+  new ResourceTemplate("foursquare://venues/{venueId}", {
+    list: undefined,
+    complete: {
+      venueId: completeVenueId
+    }
+  }),
+  {
+    title: t().resources.venue.title,
+    description: t().resources.venue.description,
+    mimeType: "text/plain"
+  },
+  async (uri, { venueId }) => {
+    const venue = await foursquareAPI.getVenue(String(venueId));
+
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: "text/plain",
+        text: foursquareAPI.formatVenue(venue)
+      }]
+    };
+  }
+);
+
+// リソース一覧のキャッシュ（ページごとに全件を作り直さないよう、アーカイブが変わるまで使い回す）
+let resourceListCache: { version: string | null; resources: Resource[] } | null = null;
+
+// アーカイブ内のチェックインからリソース一覧を作成
+async function listCheckinResources(): Promise<Resource[]> {
+  const version = await checkinArchive.getVersion();
+  if (resourceListCache && resourceListCache.version === version) {
+    return resourceListCache.resources;
+  }
+
+  const checkins = await checkinArchive.query();
+  const resources: Resource[] = [
+    {
+      uri: RECENT_CHECKINS_URI,
+      name: "recent-checkins",
+      title: t().resources.recentCheckins.title,
+      mimeType: "text/plain"
+    },
+    ...checkins.map(checkin => ({
+      uri: `foursquare://checkins/${checkin.id}`,
+      name: checkin.id,
+      title: `${checkin.venue.name} (${foursquareAPI.formatCheckinDate(checkin)})`,
+      mimeType: "text/plain"
+    }))
+  ];
+
+  resourceListCache = { version, resources };
+  return resources;
+}
+
+// リソース一覧（アーカイブ内のチェックインをカーソルでページング）
+// McpServerの標準ハンドラはカーソルに対応していないため置き換える
+server.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+  const cursor = request.params?.cursor;
+  const offset = cursor ? parseInt(cursor, 10) : 0;
+  if (Number.isNaN(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+
+  const resources = await listCheckinResources();
+  const nextOffset = offset + RESOURCE_PAGE_SIZE;
+
+  return {
+    resources: resources.slice(offset, nextOffset),
+    nextCursor: nextOffset < resources.length ? String(nextOffset) : undefined
+  };
+});
+
+// リソース購読（sync-checkinsで新しいチェックインが追加されるとresources/updatedを通知）
+server.server.registerCapabilities({
+  resources: {
+    subscribe: true
+  }
+});
+
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  subscribedResources.add(request.params.uri);
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscribedResources.delete(request.params.uri);
+  return {};
+});
+
+// 週次旅行日記プロンプト
+server.registerPrompt(
+  "weekly-travel-diary",
+  {
+    title: t().prompts.weeklyTravelDiary.title,
+    description: t().prompts.weeklyTravelDiary.description,
+    argsSchema: {
+      weekStart: dateArg(t().prompts.weeklyTravelDiary.weekStart).optional(),
+      city: z.string().optional().describe(t().params.city),
+      source: z.enum(["api", "archive"]).optional().describe(t().params.source)
+    }
+  },
+  async ({ weekStart, city, source = "archive" }) => {
+    // 省略時は今日までの7日間
+    const from = weekStart ?? addDays(today(), -6);
+    const to = addDays(from, 6);
+
+    const checkins = await filterCheckins(
+      await getCheckinHistory({ ...dateRangeToTimestamps(from, to), source, sort: 'oldestfirst' }),
+      { city }
+    );
+
+    return {
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: `${t().prompts.weeklyTravelDiary.instruction(from, to)}\n\n` +
+            (checkins.length === 0 ? t().checkins.notFound : formatCheckinsText(checkins))
+        }
+      }]
+    };
+  }
+);
+
+// 再訪したいレストラン提案プロンプト
+server.registerPrompt(
+  "restaurant-revisit-suggestions",
+  {
+    title: t().prompts.restaurantRevisitSuggestions.title,
+    description: t().prompts.restaurantRevisitSuggestions.description,
+    argsSchema: {
+      category: z.string().optional().describe(t().prompts.restaurantRevisitSuggestions.category),
+      city: z.string().optional().describe(t().params.city),
+      since: dateArg(t().prompts.restaurantRevisitSuggestions.since).optional(),
+      source: z.enum(["api", "archive"]).optional().describe(t().params.source)
+    }
+  },
+  async ({ category, city, since, source = "archive" }) => {
+    const from = since ?? addDays(today(), -365);
+
+    // "Food" はカテゴリー階層の最上位で、各種レストラン・カフェ等をサブカテゴリーに含む
+    const checkins = await filterCheckins(
+      await getCheckinHistory({ ...dateRangeToTimestamps(from), source }),
+      { category: category || "Food", city }
+    );
+
+    // ベニューごとの訪問回数と最終訪問を集計
+    const lines = [...countVisitsByVenue(checkins).values()]
+      .sort((a, b) => b.count - a.count)
+      .map(({ lastCheckin, count }) => {
+        const categories = lastCheckin.venue.categories.map(c => c.name).join(', ');
+        return t().prompts.restaurantRevisitSuggestions.visits(
+          lastCheckin.venue.name,
+          count,
+          foursquareAPI.formatCheckinDate(lastCheckin),
+          categories
+        );
+      });
+
+    return {
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: `${t().prompts.restaurantRevisitSuggestions.instruction(from)}\n\n` +
+            (lines.length === 0 ? t().checkins.notFound : lines.join('\n'))
+        }
+      }]
+    };
+  }
+);
+
+// 旅行サマリープロンプト
+server.registerPrompt(
+  "trip-summary",
+  {
+    title: t().prompts.tripSummary.title,
+    description: t().prompts.tripSummary.description,
+    argsSchema: {
+      from: dateArg(t().prompts.tripSummary.from),
+      to: dateArg(t().prompts.tripSummary.to),
+      city: z.string().optional().describe(t().params.city),
+      source: z.enum(["api", "archive"]).optional().describe(t().params.source)
+    }
+  },
+  async ({ from, to, city, source = "archive" }) => {
+    const checkins = await filterCheckins(
+      await getCheckinHistory({ ...dateRangeToTimestamps(from, to), source, sort: 'oldestfirst' }),
+      { city }
+    );
+
+    return {
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: `${t().prompts.tripSummary.instruction(from, to)}\n\n` +
+            (checkins.length === 0 ? t().checkins.notFound : formatCheckinsText(checkins))
+        }
+      }]
+    };
+  }
+);
+
 // サーバー起動
 async function main() {
   // CLIコマンドの処理を試行
@@ -322,7 +3550,14 @@ async function main() {
 
   // デバッグ情報はstderrに出力
   console.error("🚀 Foursquare MCP Server is running...");
-  console.error("📍 Available tools: authenticate, check-auth-status, get-user-checkins");
+  console.error("📍 Available tools: authenticate, check-auth-status, get-user-checkins, get-all-checkins, sync-checkins, search-venues, get-venue-details, create-checkin, update-checkin, delete-checkin, recommend-venues, autocomplete-venues, autocomplete-places, trending-venues, related-venues, list-categories");
+  console.error("📋 List tools: get-user-lists, get-list, create-list, update-list, delete-list, add-list-item, delete-list-item, suggest-list-venues");
+  console.error("📝 Tip tools: get-user-tips, get-venue-tips, get-tip, add-tip, vote-tip, delete-tip, flag-tip");
+  console.error("🍽️ Taste tools: get-user-tastes, add-tastes, delete-taste, autocomplete-tastes, get-taste-suggestions, suggest-tastes-from-checkins");
+  console.error("📊 Analysis tools: checkin-stats, search-checkins-by-location, search-my-checkins");
+  console.error("📤 Export tools: export-checkins, generate-review");
+  console.error("📝 Available prompts: weekly-travel-diary, restaurant-revisit-suggestions, trip-summary");
+  console.error("📚 Available resources: foursquare://checkins/recent, foursquare://checkins/{checkinId}, foursquare://venues/{venueId}");
 }
 
 // エラーハンドリング
@@ -4,6 +4,9 @@ import utc from 'dayjs/plugin/utc.js';
 import timezone from 'dayjs/plugin/timezone.js';
 import { API_CONFIG } from './config.js';
 import { tokenManager } from './token.js';
+import { loadCheckpoint, saveCheckpoint, clearCheckpoint } from './checkpoint.js';
+import { settingsManager, type TimeDisplay } from './settings.js';
+import { t } from './i18n.js';
 
 // dayjsプラグインを読み込み
 dayjs.extend(utc);
@@ -34,10 +37,69 @@ interface CheckinsResponse {
   };
 }
 
+/**
+ * チェックイン取得時の期間・ソート条件
+ */
+export interface CheckinsQuery {
+  afterTimestamp?: number;
+  beforeTimestamp?: number;
+  sort?: 'newestfirst' | 'oldestfirst';
+}
+
+/**
+ * チェックイン1ページ分の取得結果
+ */
+export interface CheckinsPage {
+  items: Checkin[];
+  count: number;
+  nextOffset?: number;
+}
+
+/**
+ * 全件取得時の1リクエストあたりの取得件数
+ */
+const CHECKINS_PAGE_SIZE = 100;
+
+/**
+ * レート制限（またはクォータ超過）エラー
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public resetAt?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * HTTPレスポンスがレート制限によるものか判定
+ */
+function isRateLimitResponse(status: number, body: string): boolean {
+  return status === 429 || (status === 403 && body.includes('rate_limit_exceeded'));
+}
+
+/**
+ * ベニューの形式をそろえる
+ * /search/recommendations などは formattedAddress を { text } 形式で返すため配列に変換する
+ */
+function normalizeVenue(venue: Venue): Venue {
+  const formattedAddress = venue.location.formattedAddress as unknown;
+  if (formattedAddress && !Array.isArray(formattedAddress)) {
+    const text = (formattedAddress as { text?: string }).text;
+    return {
+      ...venue,
+      location: {
+        ...venue.location,
+        formattedAddress: text ? [text] : undefined,
+      },
+    };
+  }
+  return venue;
+}
+
 /**
  * 写真の型
  */
-interface Photo {
+export interface Photo {
   createdAt: number;
   height: number;
   id: string;
@@ -65,6 +127,243 @@ interface Photo {
   width: number;
 }
 
+/**
+ * ベニューのカテゴリーの型
+ */
+export interface VenueCategory {
+  id: string;
+  name: string;
+  pluralName: string;
+  shortName: string;
+  icon: {
+    prefix: string;
+    suffix: string;
+  };
+  primary?: boolean;
+}
+
+/**
+ * カテゴリー階層のノードの型（categoriesにサブカテゴリーが入る）
+ */
+export interface CategoryNode extends VenueCategory {
+  categories?: CategoryNode[];
+}
+
+/**
+ * ベニューの所在地の型
+ */
+export interface VenueLocation {
+  lat: number;
+  lng: number;
+  address?: string;
+  crossStreet?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  cc?: string;
+  formattedAddress?: string[];
+  distance?: number;
+}
+
+/**
+ * ベニューの型
+ */
+export interface Venue {
+  id: string;
+  name: string;
+  location: VenueLocation;
+  categories: VenueCategory[];
+  stats?: {
+    checkinsCount: number;
+    usersCount: number;
+    tipCount?: number;
+  };
+  url?: string;
+  description?: string;
+  rating?: number;
+  price?: {
+    tier: number;
+    message?: string;
+    currency?: string;
+  };
+}
+
+/**
+ * 営業時間の時間帯の型（daysは1=月曜〜7=日曜）
+ */
+export interface VenueTimeframe {
+  days: number[];
+  includesToday?: boolean;
+  open: Array<{
+    start: string;
+    end: string;
+  }>;
+}
+
+/**
+ * ベニューの営業時間の型
+ */
+export interface VenueHours {
+  hours?: {
+    timeframes: VenueTimeframe[];
+  };
+  popular?: {
+    timeframes: VenueTimeframe[];
+  };
+}
+
+/**
+ * ベニューの属性グループの型
+ */
+export interface VenueAttributeGroup {
+  type: string;
+  name: string;
+  summary?: string;
+  count: number;
+  items: Array<{
+    name?: string;
+    displayName: string;
+    displayValue?: string;
+    priceTier?: number;
+  }>;
+}
+
+/**
+ * Tipの型
+ */
+export interface Tip {
+  id: string;
+  createdAt: number;
+  text: string;
+  type?: string;
+  canonicalUrl?: string;
+  agreeCount?: number;
+  disagreeCount?: number;
+  user?: {
+    id: string;
+    firstName: string;
+    lastName?: string;
+  };
+  venue?: Venue;
+}
+
+/**
+ * Tipを報告する際の問題の種類
+ */
+export type TipProblem = 'spam' | 'offensive' | 'nolongerrelevant' | 'negative' | 'badtaste';
+
+/**
+ * テイスト（好み）の型
+ */
+export interface Taste {
+  id: string;
+  text: string;
+  onUser?: boolean;
+}
+
+/**
+ * リストの項目の型
+ */
+export interface ListItem {
+  id: string;
+  createdAt?: number;
+  venue?: Venue;
+  tip?: Tip;
+}
+
+/**
+ * リストの型
+ */
+export interface FoursquareList {
+  id: string;
+  name: string;
+  description?: string;
+  type?: string;
+  editable?: boolean;
+  public?: boolean;
+  collaborative?: boolean;
+  canonicalUrl?: string;
+  placesSummary?: string;
+  listItems?: {
+    count: number;
+    items?: ListItem[];
+  };
+}
+
+/**
+ * ベニュー詳細レポートの型
+ * 詳細以外の各情報は取得に失敗した場合undefinedとなり、errorsに理由が入る
+ */
+export interface VenueDetails {
+  venue: Venue;
+  hours?: VenueHours;
+  attributes?: VenueAttributeGroup[];
+  photos?: Photo[];
+  tips?: Tip[];
+  errors: Array<{
+    section: 'hours' | 'attributes' | 'photos' | 'tips';
+    message: string;
+  }>;
+}
+
+/**
+ * ベニュー検索の条件
+ */
+export interface VenueSearchOptions {
+  ll?: string;
+  near?: string;
+  query?: string;
+  radius?: number;
+  categoryId?: string;
+  limit?: number;
+  intent?: 'checkin' | 'browse' | 'global' | 'match';
+}
+
+/**
+ * おすすめベニュー取得の条件
+ */
+export interface RecommendationOptions {
+  ll?: string;
+  near?: string;
+  query?: string;
+  radius?: number;
+  section?: 'food' | 'drinks' | 'coffee' | 'shops' | 'arts' | 'outdoors' | 'sights' | 'trending' | 'topPicks';
+  price?: number[];
+  openNow?: boolean;
+  limit?: number;
+}
+
+/**
+ * 地名オートコンプリートの結果の型
+ * 地名の場合はll・bounds、ベニューの場合はvenueIdが入る
+ */
+export interface GeoAutocompleteResult {
+  text: string;
+  displayText?: string;
+  type?: string;
+  geoId?: number;
+  venueId?: string;
+  ll?: {
+    lat: number;
+    lng: number;
+  };
+  bounds?: {
+    ne: { lat: number; lng: number };
+    sw: { lat: number; lng: number };
+  };
+}
+
+/**
+ * チェックイン投稿の内容
+ */
+export interface CreateCheckinOptions {
+  venueId: string;
+  shout?: string;
+  ll?: string;
+  broadcast?: string;
+}
+
 /**
  * チェックインの型
  */
@@ -74,6 +373,7 @@ export interface Checkin {
   type: 'checkin';
   timeZoneOffset: number;
   shout?: string;
+  editableUntil?: number; // 編集・削除可能な期限（ミリ秒）
   user: {
     id: string;
     firstName: string;
@@ -83,37 +383,7 @@ export interface Checkin {
       suffix: string;
     };
   };
-  venue: {
-    id: string;
-    name: string;
-    location: {
-      lat: number;
-      lng: number;
-      address?: string;
-      crossStreet?: string;
-      city?: string;
-      state?: string;
-      postalCode?: string;
-      country?: string;
-      formattedAddress?: string[];
-    };
-    categories: Array<{
-      id: string;
-      name: string;
-      pluralName: string;
-      shortName: string;
-      icon: {
-        prefix: string;
-        suffix: string;
-      };
-      primary?: boolean;
-    }>;
-    stats?: {
-      checkinsCount: number;
-      usersCount: number;
-      tipCount?: number;
-    };
-  };
+  venue: Venue;
   likes?: {
     count: number;
     groups: any[];
@@ -147,42 +417,36 @@ export class FoursquareAPI {
     } else {
       const tokenInfo = await tokenManager.loadToken();
       if (!tokenInfo) {
-        throw new Error('トークンが見つかりません。先に認証を実行してください。');
+        throw new Error(t().api.tokenNotFound);
       }
       this.accessToken = tokenInfo.access_token;
     }
   }
 
   /**
-   * ユーザーのチェックインを取得
+   * APIにリクエストを送信してレスポンス本体を返す
+   * POSTの場合もAPI仕様に合わせてパラメータはクエリ文字列で送る
    */
-  async getUserCheckins(options: {
-    limit?: number;
-    afterTimestamp?: number;
-    beforeTimestamp?: number;
-    sort?: 'newestfirst' | 'oldestfirst';
-  } = {}): Promise<Checkin[]> {
+  private async request<T>(
+    path: string,
+    params: Record<string, string | number | undefined> = {},
+    method: 'GET' | 'POST' = 'GET'
+  ): Promise<T> {
     if (!this.accessToken) {
       await this.setToken();
     }
 
-    const params = new URLSearchParams({
-      v: API_CONFIG.VERSION,
-      limit: (options.limit || 50).toString(),
-      sort: options.sort || 'newestfirst',
-    });
-
-    if (options.afterTimestamp) {
-      params.append('afterTimestamp', options.afterTimestamp.toString());
+    const searchParams = new URLSearchParams({ v: API_CONFIG.VERSION });
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        searchParams.append(key, value.toString());
+      }
     }
 
-    if (options.beforeTimestamp) {
-      params.append('beforeTimestamp', options.beforeTimestamp.toString());
-    }
+    const url = `${API_CONFIG.BASE_URL}${path}?${searchParams}`;
 
-    const url = `${API_CONFIG.BASE_URL}/users/self/checkins?${params}`;
-    
     const response = await fetch(url, {
+      method,
       headers: {
         'Authorization': `Bearer ${this.accessToken}`,
       },
@@ -190,16 +454,604 @@ export class FoursquareAPI {
 
     if (!response.ok) {
       const errorText = await response.text();
+      if (isRateLimitResponse(response.status, errorText)) {
+        const reset = response.headers.get('X-RateLimit-Reset');
+        throw new RateLimitError(
+          `API error: ${response.status} - ${errorText}`,
+          reset ? parseInt(reset, 10) : undefined
+        );
+      }
       throw new Error(`API error: ${response.status} - ${errorText}`);
     }
 
-    const data = await response.json() as FoursquareResponse<CheckinsResponse>;
+    const data = await response.json() as FoursquareResponse<T>;
 
     if (data.meta.code !== 200) {
+      if (data.meta.errorType === 'rate_limit_exceeded' || data.meta.errorType === 'quota_exceeded') {
+        throw new RateLimitError(`API error: ${data.meta.errorType} - ${data.meta.errorDetail}`);
+      }
       throw new Error(`API error: ${data.meta.errorType} - ${data.meta.errorDetail}`);
     }
 
-    return data.response.checkins.items;
+    return data.response;
+  }
+
+  /**
+   * ユーザーのチェックインを1ページ分取得（件数と次のオフセットを含む）
+   */
+  async getCheckinsPage(options: CheckinsQuery & {
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<CheckinsPage> {
+    const data = await this.request<CheckinsResponse>('/users/self/checkins', {
+      limit: options.limit || 50,
+      offset: options.offset || undefined,
+      sort: options.sort || 'newestfirst',
+      afterTimestamp: options.afterTimestamp || undefined,
+      beforeTimestamp: options.beforeTimestamp || undefined,
+    });
+
+    return {
+      items: data.checkins.items,
+      count: data.checkins.count,
+      nextOffset: data.checkins.nextOffset,
+    };
+  }
+
+  /**
+   * ユーザーのチェックインを取得
+   */
+  async getUserCheckins(options: CheckinsQuery & {
+    limit?: number;
+  } = {}): Promise<Checkin[]> {
+    const page = await this.getCheckinsPage(options);
+    return page.items;
+  }
+
+  /**
+   * チェックインの詳細を取得
+   */
+  async getCheckin(checkinId: string): Promise<Checkin> {
+    const data = await this.request<{ checkin: Checkin }>(`/checkins/${encodeURIComponent(checkinId)}`);
+    return data.checkin;
+  }
+
+  /**
+   * チェックインを投稿
+   */
+  async createCheckin(options: CreateCheckinOptions): Promise<Checkin> {
+    const data = await this.request<{ checkin: Checkin }>('/checkins/add', {
+      venueId: options.venueId,
+      shout: options.shout,
+      ll: options.ll,
+      broadcast: options.broadcast,
+    }, 'POST');
+    return data.checkin;
+  }
+
+  /**
+   * チェックインのコメントを更新
+   */
+  async updateCheckin(checkinId: string, options: { shout: string }): Promise<Checkin> {
+    const data = await this.request<{ checkin: Checkin }>(
+      `/checkins/${encodeURIComponent(checkinId)}/update`,
+      { shout: options.shout },
+      'POST'
+    );
+    return data.checkin;
+  }
+
+  /**
+   * チェックインを削除
+   */
+  async deleteCheckin(checkinId: string): Promise<void> {
+    await this.request<unknown>(`/checkins/${encodeURIComponent(checkinId)}/delete`, {}, 'POST');
+  }
+
+  /**
+   * チェックインが編集・削除可能な期限内か判定（editableUntilが無い場合は可能とみなす）
+   */
+  isCheckinEditable(checkin: Checkin): boolean {
+    return checkin.editableUntil === undefined || Date.now() <= checkin.editableUntil;
+  }
+
+  /**
+   * 送信予定のPOSTリクエストを表示用文字列に変換（ドライラン・確認用）
+   */
+  formatPostPreview(path: string, params: Record<string, string | number | undefined>): string {
+    const lines = [`POST ${path}`];
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        lines.push(`  ${key}: ${value}`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * ベニューの詳細を取得
+   */
+  async getVenue(venueId: string): Promise<Venue> {
+    const data = await this.request<{ venue: Venue }>(`/venues/${encodeURIComponent(venueId)}`);
+    return data.venue;
+  }
+
+  /**
+   * ベニューの営業時間を取得
+   */
+  async getVenueHours(venueId: string): Promise<VenueHours> {
+    return this.request<VenueHours>(`/venues/${encodeURIComponent(venueId)}/hours`);
+  }
+
+  /**
+   * ベニューの属性（価格帯・予約・支払い方法など）を取得
+   */
+  async getVenueAttributes(venueId: string): Promise<VenueAttributeGroup[]> {
+    const data = await this.request<{ attributes: { groups: VenueAttributeGroup[] } }>(
+      `/venues/${encodeURIComponent(venueId)}/attributes`
+    );
+    return data.attributes.groups;
+  }
+
+  /**
+   * ベニューの写真を取得
+   */
+  async getVenuePhotos(venueId: string, options: { limit?: number; offset?: number } = {}): Promise<Photo[]> {
+    const data = await this.request<{ photos: { count: number; items: Photo[] } }>(
+      `/venues/${encodeURIComponent(venueId)}/photos`,
+      { limit: options.limit, offset: options.offset }
+    );
+    return data.photos.items;
+  }
+
+  /**
+   * ベニューのTipsを取得
+   */
+  async getVenueTips(venueId: string, options: {
+    sort?: 'popular' | 'recent';
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<Tip[]> {
+    const data = await this.request<{ tips: { count: number; items: Tip[] } }>(
+      `/venues/${encodeURIComponent(venueId)}/tips`,
+      { sort: options.sort, limit: options.limit, offset: options.offset }
+    );
+    return data.tips.items;
+  }
+
+  /**
+   * ベニューの詳細・営業時間・属性・写真・Tipsをまとめて取得
+   * 詳細以外の取得失敗は許容し、取得できた情報だけでレポートを作る
+   */
+  async getVenueDetails(venueId: string, options: {
+    photosLimit?: number;
+    tipsLimit?: number;
+  } = {}): Promise<VenueDetails> {
+    const [venue, hours, attributes, photos, tips] = await Promise.allSettled([
+      this.getVenue(venueId),
+      this.getVenueHours(venueId),
+      this.getVenueAttributes(venueId),
+      this.getVenuePhotos(venueId, { limit: options.photosLimit }),
+      this.getVenueTips(venueId, { sort: 'popular', limit: options.tipsLimit }),
+    ]);
+
+    if (venue.status === 'rejected') {
+      throw venue.reason;
+    }
+
+    const errors: VenueDetails['errors'] = [];
+    const settle = <T>(section: VenueDetails['errors'][number]['section'], result: PromiseSettledResult<T>): T | undefined => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+      errors.push({ section, message: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+      return undefined;
+    };
+
+    return {
+      venue: venue.value,
+      hours: settle('hours', hours),
+      attributes: settle('attributes', attributes),
+      photos: settle('photos', photos),
+      tips: settle('tips', tips),
+      errors,
+    };
+  }
+
+  /**
+   * ユーザーが投稿したTipsを取得
+   */
+  async getUserTips(options: {
+    limit?: number;
+    offset?: number;
+    venueId?: string;
+    categoryId?: string;
+  } = {}): Promise<Tip[]> {
+    const data = await this.request<{ tips: { count: number; items: Tip[] } }>('/users/self/tips', {
+      limit: options.limit,
+      offset: options.offset,
+      venueId: options.venueId,
+      categoryId: options.categoryId,
+    });
+    return data.tips.items;
+  }
+
+  /**
+   * Tipの詳細を取得
+   */
+  async getTip(tipId: string): Promise<Tip> {
+    const data = await this.request<{ tip: Tip }>(`/tips/${encodeURIComponent(tipId)}`);
+    return data.tip;
+  }
+
+  /**
+   * ベニューにTipを投稿
+   */
+  async addTip(options: { venueId: string; text: string }): Promise<Tip> {
+    const data = await this.request<{ tip: Tip }>('/tips/add', {
+      venueId: options.venueId,
+      text: options.text,
+    }, 'POST');
+    return data.tip;
+  }
+
+  /**
+   * Tipに投票（true: 高評価、false: 低評価）
+   */
+  async voteTip(tipId: string, vote: boolean): Promise<Tip> {
+    const data = await this.request<{ tip: Tip }>(
+      `/tips/${encodeURIComponent(tipId)}/vote`,
+      { vote: vote.toString() },
+      'POST'
+    );
+    return data.tip;
+  }
+
+  /**
+   * Tipを削除
+   */
+  async deleteTip(tipId: string): Promise<void> {
+    await this.request<unknown>(`/tips/${encodeURIComponent(tipId)}/delete`, {}, 'POST');
+  }
+
+  /**
+   * Tipを問題のある投稿として報告
+   */
+  async flagTip(tipId: string, problem: TipProblem): Promise<void> {
+    await this.request<unknown>(`/tips/${encodeURIComponent(tipId)}/flag`, { problem }, 'POST');
+  }
+
+  /**
+   * ユーザーのテイスト一覧を取得
+   */
+  async getUserTastes(): Promise<Taste[]> {
+    const data = await this.request<{
+      tastes: {
+        count: number;
+        groups: Array<{ type: string; name: string; items: Taste[] }>;
+      };
+    }>('/users/self/tastes');
+
+    // 同じテイストが複数のグループに含まれるためIDで重複を除外
+    const tastes = new Map<string, Taste>();
+    for (const taste of data.tastes.groups.flatMap(group => group.items)) {
+      tastes.set(taste.id, taste);
+    }
+    return [...tastes.values()];
+  }
+
+  /**
+   * テイストを追加
+   */
+  async addTastes(tasteIds: string[]): Promise<void> {
+    await this.request<unknown>('/tastes/add', { tasteId: tasteIds.join(',') }, 'POST');
+  }
+
+  /**
+   * テイストを削除
+   */
+  async deleteTaste(tasteId: string): Promise<void> {
+    await this.request<unknown>('/tastes/delete', { tasteId }, 'POST');
+  }
+
+  /**
+   * キーワードからテイストを検索
+   */
+  async autocompleteTastes(query: string, limit?: number): Promise<Taste[]> {
+    const data = await this.request<{ tastes: Taste[] }>('/tastes/autocomplete', { query, limit });
+    return data.tastes;
+  }
+
+  /**
+   * おすすめのテイストを取得
+   */
+  async getTasteSuggestions(options: { limit?: number; offset?: number } = {}): Promise<Taste[]> {
+    const data = await this.request<{ tastes: Taste[] }>('/tastes/suggestions', {
+      intent: 'profileadd',
+      limit: options.limit,
+      offset: options.offset,
+    });
+    return data.tastes;
+  }
+
+  /**
+   * ユーザーのリスト一覧を取得
+   */
+  async getUserLists(options: {
+    group?: 'created' | 'edited' | 'followed' | 'friends' | 'suggested';
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<FoursquareList[]> {
+    const data = await this.request<{
+      lists: {
+        count: number;
+        items?: FoursquareList[];
+        groups?: Array<{ type: string; name: string; items: FoursquareList[] }>;
+      };
+    }>('/users/self/lists', { group: options.group, limit: options.limit, offset: options.offset });
+
+    // groupを指定しない場合はグループ分けされた形式で返る
+    if (data.lists.groups) {
+      return data.lists.groups.flatMap(group => group.items);
+    }
+    return data.lists.items || [];
+  }
+
+  /**
+   * リストの詳細（項目を含む）を取得
+   */
+  async getList(listId: string): Promise<FoursquareList> {
+    const data = await this.request<{ list: FoursquareList }>(`/lists/${encodeURIComponent(listId)}`);
+    return data.list;
+  }
+
+  /**
+   * リストを作成
+   */
+  async createList(options: { name: string; description?: string }): Promise<FoursquareList> {
+    const data = await this.request<{ list: FoursquareList }>('/lists/add', {
+      name: options.name,
+      description: options.description,
+    }, 'POST');
+    return data.list;
+  }
+
+  /**
+   * リストの名前・説明を更新
+   */
+  async updateList(listId: string, options: { name?: string; description?: string }): Promise<FoursquareList> {
+    const data = await this.request<{ list: FoursquareList }>(`/lists/${encodeURIComponent(listId)}/update`, {
+      name: options.name,
+      description: options.description,
+    }, 'POST');
+    return data.list;
+  }
+
+  /**
+   * リストを削除
+   */
+  async deleteList(listId: string): Promise<void> {
+    await this.request<unknown>(`/lists/${encodeURIComponent(listId)}/delete`, {}, 'POST');
+  }
+
+  /**
+   * リストにベニューを追加
+   */
+  async addListItem(listId: string, options: { venueId: string; text?: string }): Promise<ListItem> {
+    const data = await this.request<{ item: ListItem }>(`/lists/${encodeURIComponent(listId)}/additem`, {
+      venueId: options.venueId,
+      text: options.text,
+    }, 'POST');
+    return data.item;
+  }
+
+  /**
+   * リストからベニューを削除
+   */
+  async deleteListItem(listId: string, venueId: string): Promise<void> {
+    await this.request<unknown>(`/lists/${encodeURIComponent(listId)}/deleteitem`, { venueId }, 'POST');
+  }
+
+  /**
+   * リストに追加するのにおすすめのベニューを取得
+   */
+  async suggestListVenues(listId: string): Promise<Venue[]> {
+    const data = await this.request<{ suggestedVenues: Array<{ venue: Venue }> }>(
+      `/lists/${encodeURIComponent(listId)}/suggestvenues`
+    );
+    return data.suggestedVenues.map(suggestion => suggestion.venue);
+  }
+
+  /**
+   * パーソナライズされたおすすめベニューを取得
+   */
+  async getVenueRecommendations(options: RecommendationOptions): Promise<Venue[]> {
+    const data = await this.request<{
+      group: {
+        results: Array<{ venue: Venue }>;
+      };
+    }>('/search/recommendations', {
+      ll: options.ll,
+      near: options.near,
+      query: options.query,
+      radius: options.radius,
+      section: options.section,
+      price: options.price?.join(','),
+      openNow: options.openNow ? 'true' : undefined,
+      limit: options.limit,
+    });
+
+    return data.group.results.map(result => normalizeVenue(result.venue));
+  }
+
+  /**
+   * 入力途中の名前からベニューを候補検索
+   */
+  async autocompleteVenues(options: {
+    query: string;
+    ll?: string;
+    near?: string;
+    radius?: number;
+  }): Promise<Venue[]> {
+    const data = await this.request<{
+      groups: Array<{
+        type: string;
+        items: Array<{ id: string; text: string; type: string; object?: unknown }>;
+      }>;
+    }>('/search/autocomplete', {
+      query: options.query,
+      ll: options.ll,
+      near: options.near,
+      radius: options.radius,
+    });
+
+    // 検索キーワードやカテゴリーの候補も混ざるため、ベニューの候補だけを取り出す
+    return data.groups
+      .flatMap(group => group.items)
+      .filter(item => item.type === 'venue' && item.object)
+      .map(item => normalizeVenue(item.object as Venue));
+  }
+
+  /**
+   * 入力途中の地名から場所を候補検索（緯度経度付き）
+   */
+  async geoAutocomplete(query: string): Promise<GeoAutocompleteResult[]> {
+    const data = await this.request<{ results: GeoAutocompleteResult[] }>('/search/geoautocomplete', { query });
+    return data.results;
+  }
+
+  /**
+   * 周辺で今にぎわっているベニューを取得
+   */
+  async getTrendingVenues(options: {
+    ll?: string;
+    near?: string;
+    radius?: number;
+    limit?: number;
+  }): Promise<Venue[]> {
+    const data = await this.request<{ venues: Venue[] }>('/venues/trending', {
+      ll: options.ll,
+      near: options.near,
+      radius: options.radius,
+      limit: options.limit,
+    });
+    return data.venues;
+  }
+
+  /**
+   * ベニューに関連するベニュー（似ている・併設されている等）を取得
+   */
+  async getRelatedVenues(venueId: string): Promise<Venue[]> {
+    const data = await this.request<{
+      related: Array<{
+        count: number;
+        summary?: string;
+        items: Array<{ venue: Venue }>;
+      }>;
+    }>(`/venues/${encodeURIComponent(venueId)}/related`);
+
+    // 複数のグループに同じベニューが含まれる場合があるためIDで重複を除外
+    const venues = new Map<string, Venue>();
+    for (const item of data.related.flatMap(group => group.items)) {
+      venues.set(item.venue.id, item.venue);
+    }
+    return [...venues.values()].map(normalizeVenue);
+  }
+
+  /**
+   * ベニューカテゴリーの階層全体を取得
+   */
+  async getVenueCategories(): Promise<CategoryNode[]> {
+    const data = await this.request<{ categories: CategoryNode[] }>('/venues/categories');
+    return data.categories;
+  }
+
+  /**
+   * ベニューを検索
+   */
+  async searchVenues(options: VenueSearchOptions): Promise<Venue[]> {
+    const data = await this.request<{ venues: Venue[] }>('/venues/search', {
+      ll: options.ll,
+      near: options.near,
+      query: options.query,
+      radius: options.radius,
+      categoryId: options.categoryId,
+      limit: options.limit,
+      intent: options.intent,
+    });
+    return data.venues;
+  }
+
+  /**
+   * offsetを進めながら全チェックイン（または指定期間分）を取得
+   *
+   * checkpoint: true の場合、レート制限で中断されたら取得済みの内容をチェックポイントとして保存し、
+   * resume: true で再実行するとその続きから取得を再開する。
+   * チェックポイントは1つだけのため、指定しない呼び出しは他の取得のチェックポイントを保存・削除しない。
+   * APIが返す件数は期間を絞らない全件数のため、期間指定時の進捗には total を含めない。
+   */
+  async getAllCheckins(options: CheckinsQuery & {
+    checkpoint?: boolean;
+    resume?: boolean;
+    onProgress?: (progress: { fetched: number; total?: number }) => void | Promise<void>;
+  } = {}): Promise<Checkin[]> {
+    const query: CheckinsQuery = {
+      afterTimestamp: options.afterTimestamp,
+      beforeTimestamp: options.beforeTimestamp,
+      sort: options.sort || 'newestfirst',
+    };
+
+    let offset = 0;
+    let items: Checkin[] = [];
+    let resumed = false;
+    const windowed = options.afterTimestamp !== undefined || options.beforeTimestamp !== undefined;
+
+    if (options.checkpoint && options.resume) {
+      const checkpoint = await loadCheckpoint(query);
+      if (checkpoint) {
+        offset = checkpoint.offset;
+        items = checkpoint.items;
+        resumed = true;
+      }
+    }
+
+    const seen = new Set(items.map(checkin => checkin.id));
+
+    while (true) {
+      let page: CheckinsPage;
+      try {
+        page = await this.getCheckinsPage({ ...query, limit: CHECKINS_PAGE_SIZE, offset });
+      } catch (error) {
+        if (options.checkpoint && error instanceof RateLimitError) {
+          await saveCheckpoint({ query, offset, items, savedAt: Date.now() });
+        }
+        throw error;
+      }
+
+      // 取得中に新しいチェックインが増えるとoffsetがずれるため、IDで重複を除外
+      for (const checkin of page.items) {
+        if (!seen.has(checkin.id)) {
+          seen.add(checkin.id);
+          items.push(checkin);
+        }
+      }
+
+      offset = page.nextOffset ?? offset + page.items.length;
+
+      if (options.onProgress) {
+        await options.onProgress({ fetched: items.length, total: windowed ? undefined : page.count });
+      }
+
+      if (page.items.length === 0 || offset >= page.count) {
+        break;
+      }
+    }
+
+    // 完了したら、再開に使ったチェックポイントだけを削除する
+    if (resumed) {
+      await clearCheckpoint();
+    }
+    return items;
   }
 
   /**
@@ -235,12 +1087,67 @@ export class FoursquareAPI {
   }
 
   /**
-   * チェックイン日時をJSTでフォーマット
+   * チェックインした場所の現地時刻を取得
+   * timeZoneOffset（UTCからの分）が無い場合は表示用タイムゾーンの時刻を返す
    */
-  formatCheckinDate(checkin: Checkin): string {
+  getCheckinLocalTime(checkin: Checkin): dayjs.Dayjs {
     // FoursquareのタイムスタンプはUNIXタイムスタンプ（UTC）
-    // dayjsで明示的に日本時間に変換
-    return dayjs.unix(checkin.createdAt).tz('Asia/Tokyo').format('YYYY/MM/DD HH:mm');
+    const time = dayjs.unix(checkin.createdAt);
+    return checkin.timeZoneOffset === undefined
+      ? time.tz(settingsManager.get().timezone)
+      : time.utcOffset(checkin.timeZoneOffset);
+  }
+
+  /**
+   * チェックイン日時をフォーマット
+   * デフォルトは現地時刻。表示方法は設定（timeDisplay）で切り替えられる
+   */
+  formatCheckinDate(checkin: Checkin, display: TimeDisplay = settingsManager.get().timeDisplay): string {
+    const { timezone } = settingsManager.get();
+    const { dateTimeFormat, format } = t();
+    const home = dayjs.unix(checkin.createdAt).tz(timezone);
+    if (display === 'home') {
+      return home.format(dateTimeFormat);
+    }
+
+    const local = this.getCheckinLocalTime(checkin);
+    if (local.utcOffset() === home.utcOffset()) {
+      return local.format(dateTimeFormat);
+    }
+    if (display === 'both') {
+      return format.bothTimes(local.format(dateTimeFormat), home.format(dateTimeFormat), timezone);
+    }
+    // 表示用タイムゾーンと異なる場合はUTCオフセットを付ける
+    return `${local.format(dateTimeFormat)} (UTC${local.format('Z')})`;
+  }
+
+  /**
+   * チェックインの編集・削除期限を表示用タイムゾーンでフォーマット
+   */
+  formatEditableUntil(checkin: Checkin): string {
+    if (checkin.editableUntil === undefined) {
+      return t().format.noDeadline;
+    }
+    return dayjs(checkin.editableUntil).tz(settingsManager.get().timezone).format(t().dateTimeFormat);
+  }
+
+  /**
+   * 所在地を住所文字列に変換（住所が無い場合は空文字列）
+   */
+  private formatAddress(location: VenueLocation): string {
+    if (location.formattedAddress && location.formattedAddress.length > 0) {
+      return location.formattedAddress.join(', ');
+    }
+    if (location.address) {
+      const addressParts = [
+        location.address,
+        location.city,
+        location.state,
+        location.country
+      ].filter(Boolean);
+      return addressParts.join(', ');
+    }
+    return '';
   }
 
   /**
@@ -261,18 +1168,9 @@ export class FoursquareAPI {
     }
     
     // 住所
-    if (checkin.venue.location.formattedAddress && checkin.venue.location.formattedAddress.length > 0) {
-      lines.push(`📮 ${checkin.venue.location.formattedAddress.join(', ')}`);
-    } else if (checkin.venue.location.address) {
-      const addressParts = [
-        checkin.venue.location.address,
-        checkin.venue.location.city,
-        checkin.venue.location.state,
-        checkin.venue.location.country
-      ].filter(Boolean);
-      if (addressParts.length > 0) {
-        lines.push(`📮 ${addressParts.join(', ')}`);
-      }
+    const address = this.formatAddress(checkin.venue.location);
+    if (address) {
+      lines.push(`📮 ${address}`);
     }
     
     // カテゴリー
@@ -288,7 +1186,7 @@ export class FoursquareAPI {
 
     // 写真
     if (checkin.photos && checkin.photos.items && checkin.photos.items.length > 0) {
-      lines.push(`📸 写真 (${checkin.photos.count}枚)`);
+      lines.push(t().format.photos(checkin.photos.count));
       checkin.photos.items.forEach((photo, index) => {
         const photoUrl = `${photo.prefix}original${photo.suffix}`;
         lines.push(`   ${index + 1}. ${photoUrl}`);
@@ -297,6 +1195,222 @@ export class FoursquareAPI {
 
     return lines.join('\n');
   }
+
+  /**
+   * ベニューを整形して表示用文字列に変換
+   */
+  formatVenue(venue: Venue): string {
+    const lines: string[] = [];
+
+    // 場所名
+    lines.push(`📍 ${venue.name}`);
+
+    // 住所
+    const address = this.formatAddress(venue.location);
+    if (address) {
+      lines.push(`📮 ${address}`);
+    }
+
+    // カテゴリー
+    if (venue.categories && venue.categories.length > 0) {
+      const categories = venue.categories.map(c => c.name).join(', ');
+      lines.push(`🏷️ ${categories}`);
+    }
+
+    // 位置情報
+    if (venue.location.lat && venue.location.lng) {
+      lines.push(`🗺️ ${venue.location.lat}, ${venue.location.lng}`);
+    }
+
+    // 検索地点からの距離
+    if (venue.location.distance !== undefined) {
+      lines.push(`📏 ${venue.location.distance}m`);
+    }
+
+    // ベニューID
+    lines.push(`🆔 ${venue.id}`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Tipを整形して表示用文字列に変換
+   */
+  formatTip(tip: Tip): string {
+    const lines: string[] = [];
+
+    // 本文
+    lines.push(`💬 ${tip.text}`);
+
+    // ベニュー
+    if (tip.venue) {
+      lines.push(`📍 ${tip.venue.name}`);
+    }
+
+    // 日時
+    lines.push(`📅 ${dayjs.unix(tip.createdAt).tz(settingsManager.get().timezone).format(t().dateTimeFormat)}`);
+
+    // 投票数
+    if (tip.agreeCount !== undefined || tip.disagreeCount !== undefined) {
+      lines.push(`👍 ${tip.agreeCount ?? 0} / 👎 ${tip.disagreeCount ?? 0}`);
+    }
+
+    // URL
+    if (tip.canonicalUrl) {
+      lines.push(`🔗 ${tip.canonicalUrl}`);
+    }
+
+    // TipID
+    lines.push(`🆔 ${tip.id}`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * リストを整形して表示用文字列に変換
+   */
+  formatList(list: FoursquareList): string {
+    const lines: string[] = [];
+
+    // リスト名
+    lines.push(`📋 ${list.name}`);
+
+    // 説明
+    if (list.description) {
+      lines.push(`📝 ${list.description}`);
+    }
+
+    // 件数・スポットの概要
+    if (list.listItems) {
+      const summary = list.placesSummary ? ` (${list.placesSummary})` : '';
+      lines.push(t().format.listSpots(list.listItems.count, summary));
+    }
+
+    // URL
+    if (list.canonicalUrl) {
+      lines.push(`🔗 ${list.canonicalUrl}`);
+    }
+
+    // リストID
+    lines.push(`🆔 ${list.id}`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * リストの項目を含めて整形して表示用文字列に変換
+   */
+  formatListDetails(list: FoursquareList): string {
+    const sections = [this.formatList(list)];
+
+    const items = list.listItems?.items || [];
+    items.forEach((item, index) => {
+      const lines = [t().format.spotHeader(index + 1)];
+      if (item.venue) {
+        lines.push(this.formatVenue(item.venue));
+      }
+      if (item.tip) {
+        lines.push(`💬 ${item.tip.text}`);
+      }
+      sections.push(lines.join('\n'));
+    });
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * 営業時間の時間帯を表示用文字列に変換（例: 月〜金 16:00–翌01:00）
+   */
+  private formatTimeframe(timeframe: VenueTimeframe): string {
+    const { format } = t();
+    const days = timeframe.days.map(day => format.dayNames[day - 1] ?? '?');
+    const dayLabel = days.length > 2 && timeframe.days.every((day, i) => i === 0 || day === timeframe.days[i - 1]! + 1)
+      ? format.dayRange(days[0]!, days[days.length - 1]!)
+      : days.join(format.daySeparator);
+
+    // "+0100" のように先頭に+が付く時刻は翌日を表す
+    const formatTime = (time: string) => {
+      const nextDay = time.startsWith('+');
+      const hhmm = time.replace('+', '');
+      return format.time(`${hhmm.slice(0, 2)}:${hhmm.slice(2, 4)}`, nextDay);
+    };
+
+    const ranges = timeframe.open.map(range => `${formatTime(range.start)}–${formatTime(range.end)}`).join(', ');
+    return `${dayLabel} ${ranges}`;
+  }
+
+  /**
+   * ベニュー詳細レポートを整形して表示用文字列に変換
+   */
+  formatVenueDetails(details: VenueDetails): string {
+    const { venue } = details;
+    const { format } = t();
+    const lines: string[] = [this.formatVenue(venue)];
+
+    // 評価
+    if (venue.rating !== undefined) {
+      lines.push(format.rating(venue.rating));
+    }
+
+    // 価格帯（詳細に無ければ属性から補完）
+    const priceTier = venue.price?.tier
+      ?? details.attributes?.flatMap(group => group.items).find(item => item.priceTier !== undefined)?.priceTier;
+    if (priceTier !== undefined) {
+      const symbol = venue.price?.currency || '$';
+      const message = venue.price?.message ? ` (${venue.price.message})` : '';
+      lines.push(format.price(`${symbol.repeat(priceTier)}${message}`));
+    }
+
+    // Webサイト
+    if (venue.url) {
+      lines.push(`🔗 ${venue.url}`);
+    }
+
+    // 営業時間
+    const timeframes = details.hours?.hours?.timeframes;
+    if (timeframes && timeframes.length > 0) {
+      lines.push(format.hours);
+      timeframes.forEach(timeframe => {
+        lines.push(`   ${this.formatTimeframe(timeframe)}`);
+      });
+    }
+
+    // 属性
+    const attributes = details.attributes?.filter(group => group.type !== 'price' && group.summary);
+    if (attributes && attributes.length > 0) {
+      lines.push(format.attributes);
+      attributes.forEach(group => {
+        lines.push(`   ${group.name}: ${group.summary}`);
+      });
+    }
+
+    // Tips
+    if (details.tips && details.tips.length > 0) {
+      lines.push(format.popularTips);
+      details.tips.forEach((tip, index) => {
+        const votes = tip.agreeCount ? ` (👍 ${tip.agreeCount})` : '';
+        lines.push(`   ${index + 1}. ${tip.text}${votes}`);
+      });
+    }
+
+    // 写真
+    if (details.photos && details.photos.length > 0) {
+      lines.push(format.photos(details.photos.length));
+      details.photos.forEach((photo, index) => {
+        lines.push(`   ${index + 1}. ${photo.prefix}original${photo.suffix}`);
+      });
+    }
+
+    // 取得できなかった情報
+    if (details.errors.length > 0) {
+      lines.push(format.unavailable);
+      details.errors.forEach(error => {
+        lines.push(`   ${error.section}: ${error.message}`);
+      });
+    }
+
+    return lines.join('\n');
+  }
 }
 
 // シングルトンインスタンス
@@ -0,0 +1,254 @@
+import * as fs from 'fs/promises';
+import { getArchivePath } from './config.js';
+import { foursquareAPI, type Checkin, type CheckinsQuery } from './api.js';
+
+/**
+ * チェックインの取得元
+ * - api: Foursquare APIから取得
+ * - archive: ローカルアーカイブから取得（オフラインで動作）
+ */
+export type CheckinSource = 'api' | 'archive';
+
+/**
+ * 同期結果の型
+ */
+export interface SyncResult {
+  added: number;
+  total: number;
+}
+
+/**
+ * 読み込み済みアーカイブのキャッシュ
+ * ファイルの更新日時とサイズが変わっていれば（他のプロセスが同期した場合など）読み直す
+ */
+interface ArchiveCache {
+  mtimeMs: number;
+  size: number;
+  checkins: Checkin[];
+}
+
+/**
+ * ローカルチェックインアーカイブ
+ * 設定ディレクトリの checkins.jsonl に1行1チェックインで保存する
+ */
+export class CheckinArchive {
+  private archivePath: string | null = null;
+  private cache: ArchiveCache | null = null;
+
+  /**
+   * 初期化
+   */
+  async initialize(): Promise<void> {
+    this.archivePath = await getArchivePath();
+  }
+
+  /**
+   * アーカイブ内の全チェックインを読み込み
+   * 読み込んだ内容はプロセス内でキャッシュし、呼び出し元が変更できるよう配列はコピーを返す
+   */
+  async load(): Promise<Checkin[]> {
+    if (!this.archivePath) {
+      await this.initialize();
+    }
+
+    let stat: { mtimeMs: number; size: number };
+    let data: string;
+    try {
+      stat = await fs.stat(this.archivePath!);
+      if (this.cache && this.cache.mtimeMs === stat.mtimeMs && this.cache.size === stat.size) {
+        return [...this.cache.checkins];
+      }
+      data = await fs.readFile(this.archivePath!, 'utf-8');
+    } catch (error: any) {
+      // アーカイブが存在しない場合は空
+      if (error.code === 'ENOENT') {
+        this.cache = null;
+        return [];
+      }
+      throw error;
+    }
+
+    const checkins = data
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as Checkin);
+    this.cache = { mtimeMs: stat.mtimeMs, size: stat.size, checkins };
+    return [...checkins];
+  }
+
+  /**
+   * 未保存のチェックインのみ追記し、追加件数を返す
+   */
+  async append(checkins: Checkin[]): Promise<number> {
+    if (!this.archivePath) {
+      await this.initialize();
+    }
+
+    const existingIds = new Set((await this.load()).map(checkin => checkin.id));
+    const newCheckins = checkins
+      .filter(checkin => !existingIds.has(checkin.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    if (newCheckins.length === 0) {
+      return 0;
+    }
+
+    const lines = newCheckins.map(checkin => JSON.stringify(checkin)).join('\n') + '\n';
+    this.cache = null;
+    await fs.appendFile(this.archivePath!, lines, { mode: 0o600 });
+
+    return newCheckins.length;
+  }
+
+  /**
+   * アーカイブ内のチェックインを差し替え（存在しない場合は何もしない）
+   */
+  async update(checkin: Checkin): Promise<void> {
+    const checkins = await this.load();
+    const index = checkins.findIndex(c => c.id === checkin.id);
+    if (index === -1) {
+      return;
+    }
+    checkins[index] = checkin;
+    await this.write(checkins);
+  }
+
+  /**
+   * アーカイブからチェックインを削除（存在しない場合は何もしない）
+   */
+  async remove(checkinId: string): Promise<void> {
+    const checkins = await this.load();
+    const remaining = checkins.filter(c => c.id !== checkinId);
+    if (remaining.length === checkins.length) {
+      return;
+    }
+    await this.write(remaining);
+  }
+
+  /**
+   * アーカイブ全体を書き直す
+   */
+  private async write(checkins: Checkin[]): Promise<void> {
+    if (!this.archivePath) {
+      await this.initialize();
+    }
+
+    const lines = checkins.map(checkin => JSON.stringify(checkin) + '\n').join('');
+    this.cache = null;
+    await fs.writeFile(this.archivePath!, lines, { mode: 0o600 });
+  }
+
+  /**
+   * アーカイブの版（更新日時とサイズ。存在しない場合はnull）
+   * 内容から作る一覧などを、アーカイブが変わるまで使い回すために使う
+   */
+  async getVersion(): Promise<string | null> {
+    if (!this.archivePath) {
+      await this.initialize();
+    }
+
+    try {
+      const stat = await fs.stat(this.archivePath!);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * アーカイブが空か（sync-checkinsをまだ実行していない）
+   */
+  async isEmpty(): Promise<boolean> {
+    return (await this.load()).length === 0;
+  }
+
+  /**
+   * アーカイブ内で最も新しいチェックインの日時（Unixタイムスタンプ）
+   */
+  async getNewestCreatedAt(): Promise<number | null> {
+    const checkins = await this.load();
+    if (checkins.length === 0) {
+      return null;
+    }
+    // 件数が多いとスプレッド引数の上限を超えるため、Math.max(...) ではなくreduceで求める
+    return checkins.reduce((newest, checkin) => Math.max(newest, checkin.createdAt), -Infinity);
+  }
+
+  /**
+   * 期間・ソート・件数を指定してアーカイブを検索
+   */
+  async query(options: CheckinsQuery & { limit?: number } = {}): Promise<Checkin[]> {
+    const checkins = (await this.load()).filter(checkin =>
+      (!options.afterTimestamp || checkin.createdAt >= options.afterTimestamp) &&
+      (!options.beforeTimestamp || checkin.createdAt <= options.beforeTimestamp)
+    );
+
+    checkins.sort((a, b) =>
+      options.sort === 'oldestfirst' ? a.createdAt - b.createdAt : b.createdAt - a.createdAt
+    );
+
+    return options.limit ? checkins.slice(0, options.limit) : checkins;
+  }
+
+  /**
+   * APIからアーカイブより新しいチェックインのみを取得して追記
+   * アーカイブが空の場合は全履歴を取得する
+   */
+  async sync(options: {
+    resume?: boolean;
+    onProgress?: (progress: { fetched: number; total?: number }) => void | Promise<void>;
+  } = {}): Promise<SyncResult> {
+    const newest = await this.getNewestCreatedAt();
+
+    // 古い順に取得することで、同期中に新しいチェックインが増えてもoffsetがずれない
+    const checkins = await foursquareAPI.getAllCheckins({
+      afterTimestamp: newest ?? undefined,
+      sort: 'oldestfirst',
+      checkpoint: true,
+      resume: options.resume,
+      onProgress: options.onProgress,
+    });
+
+    const added = await this.append(checkins);
+    const total = (await this.load()).length;
+
+    return { added, total };
+  }
+}
+
+// シングルトンインスタンス
+export const checkinArchive = new CheckinArchive();
+
+/**
+ * 取得元を指定して最近のチェックインを件数指定で取得（全履歴は取得しない）
+ * アーカイブが空の場合（未同期）はAPIから取得する
+ */
+export async function getRecentCheckins(options: CheckinsQuery & {
+  source?: CheckinSource;
+  limit?: number;
+} = {}): Promise<Checkin[]> {
+  const { source, ...query } = options;
+  if (source === 'archive' && !(await checkinArchive.isEmpty())) {
+    return checkinArchive.query(query);
+  }
+  return foursquareAPI.getUserCheckins(query);
+}
+
+/**
+ * 取得元を指定してチェックイン履歴を取得
+ * アーカイブが空の場合（未同期）は、誤って「履歴なし」と扱わないようAPIから取得する
+ */
+export async function getCheckinHistory(options: CheckinsQuery & {
+  source?: CheckinSource;
+  checkpoint?: boolean;
+  resume?: boolean;
+  onProgress?: (progress: { fetched: number; total?: number }) => void | Promise<void>;
+} = {}): Promise<Checkin[]> {
+  if (options.source === 'archive' && !(await checkinArchive.isEmpty())) {
+    return checkinArchive.query(options);
+  }
+  return foursquareAPI.getAllCheckins(options);
+}
@@ -3,6 +3,7 @@ import open from 'open';
 import fetch from 'node-fetch';
 import { OAUTH_CONFIG, API_CONFIG, getEnvConfig } from './config.js';
 import { tokenManager, type TokenInfo } from './token.js';
+import { t } from './i18n.js';
 
 /**
  * OAuth認証を実行
@@ -12,13 +13,12 @@ export async function authenticate(
   clientSecret?: string
 ): Promise<TokenInfo> {
   const config = getEnvConfig();
+  const messages = t().auth;
   const finalClientId = clientId || config.clientId;
   const finalClientSecret = clientSecret || config.clientSecret;
 
   if (!finalClientId || !finalClientSecret) {
-    throw new Error(
-      'CLIENT_IDとCLIENT_SECRETが必要です。環境変数またはパラメータで指定してください。'
-    );
+    throw new Error(messages.credentialsRequired);
   }
 
   return new Promise((resolve, reject) => {
@@ -34,21 +34,21 @@ export async function authenticate(
         res.send(`
           <html>
             <head>
-              <title>認証エラー</title>
+              <title>${messages.errorTitle}</title>
               <style>
                 body { font-family: system-ui; padding: 40px; max-width: 600px; margin: 0 auto; }
                 .error { color: #d32f2f; }
               </style>
             </head>
             <body>
-              <h1 class="error">認証エラー</h1>
-              <p>Foursquare認証でエラーが発生しました: ${error}</p>
-              <p>このウィンドウを閉じて、再度お試しください。</p>
+              <h1 class="error">${messages.errorTitle}</h1>
+              <p>${messages.errorPage(error)}</p>
+              <p>${messages.closeAndRetry}</p>
             </body>
           </html>
         `);
         server.close();
-        reject(new Error(`認証エラー: ${error}`));
+        reject(new Error(messages.authError(error)));
         return;
       }
 
@@ -56,21 +56,21 @@ export async function authenticate(
         res.send(`
           <html>
             <head>
-              <title>認証エラー</title>
+              <title>${messages.errorTitle}</title>
               <style>
                 body { font-family: system-ui; padding: 40px; max-width: 600px; margin: 0 auto; }
                 .error { color: #d32f2f; }
               </style>
             </head>
             <body>
-              <h1 class="error">認証エラー</h1>
-              <p>認証コードが見つかりません。</p>
-              <p>このウィンドウを閉じて、再度お試しください。</p>
+              <h1 class="error">${messages.errorTitle}</h1>
+              <p>${messages.codeNotFound}</p>
+              <p>${messages.closeAndRetry}</p>
             </body>
           </html>
         `);
         server.close();
-        reject(new Error('認証コードが見つかりません'));
+        reject(new Error(messages.codeNotFound));
         return;
       }
 
@@ -93,11 +93,11 @@ export async function authenticate(
         const tokenData = await tokenResponse.json() as any;
 
         if (tokenData.error) {
-          throw new Error(`トークン取得エラー: ${tokenData.error}`);
+          throw new Error(messages.tokenError(tokenData.error));
         }
 
         if (!tokenData.access_token) {
-          throw new Error('アクセストークンが取得できませんでした');
+          throw new Error(messages.noAccessToken);
         }
 
         // トークン情報を作成
@@ -112,7 +112,7 @@ export async function authenticate(
         res.send(`
           <html>
             <head>
-              <title>認証成功</title>
+              <title>${messages.successTitle}</title>
               <style>
                 body { font-family: system-ui; padding: 40px; max-width: 600px; margin: 0 auto; }
                 .success { color: #388e3c; }
@@ -120,10 +120,10 @@ export async function authenticate(
               </style>
             </head>
             <body>
-              <h1 class="success">✅ 認証成功！</h1>
-              <p>Foursquareの認証が完了しました。</p>
-              <p>トークンは安全に保存されました。</p>
-              <p>このウィンドウを閉じて、MCPツールをご利用ください。</p>
+              <h1 class="success">${messages.successHeading}</h1>
+              <p>${messages.successCompleted}</p>
+              <p>${messages.successSaved}</p>
+              <p>${messages.successClose}</p>
             </body>
           </html>
         `);
@@ -138,16 +138,16 @@ export async function authenticate(
         res.send(`
           <html>
             <head>
-              <title>エラー</title>
+              <title>${messages.genericErrorTitle}</title>
               <style>
                 body { font-family: system-ui; padding: 40px; max-width: 600px; margin: 0 auto; }
                 .error { color: #d32f2f; }
               </style>
             </head>
             <body>
-              <h1 class="error">エラー</h1>
+              <h1 class="error">${messages.genericErrorTitle}</h1>
               <p>${error.message}</p>
-              <p>このウィンドウを閉じて、再度お試しください。</p>
+              <p>${messages.closeAndRetry}</p>
             </body>
           </html>
         `);
@@ -161,14 +161,14 @@ export async function authenticate(
       res.send(`
         <html>
           <head>
-            <title>Foursquare認証</title>
+            <title>${messages.serverTitle}</title>
             <style>
               body { font-family: system-ui; padding: 40px; max-width: 600px; margin: 0 auto; }
             </style>
           </head>
           <body>
-            <h1>Foursquare認証サーバー</h1>
-            <p>認証待機中...</p>
+            <h1>${messages.serverHeading}</h1>
+            <p>${messages.waiting}</p>
           </body>
         </html>
       `);
@@ -176,7 +176,7 @@ export async function authenticate(
 
     // サーバー起動
     server = app.listen(OAUTH_CONFIG.PORT, async () => {
-      console.error(`認証サーバーを起動しました: http://localhost:${OAUTH_CONFIG.PORT}`);
+      console.error(messages.serverStarted(`http://localhost:${OAUTH_CONFIG.PORT}`));
       
       // 認証URLを構築
       const authUrl = new URL(API_CONFIG.AUTH_URL);
@@ -184,14 +184,14 @@ export async function authenticate(
       authUrl.searchParams.append('response_type', 'code');
       authUrl.searchParams.append('redirect_uri', OAUTH_CONFIG.REDIRECT_URI);
 
-      console.error(`ブラウザで認証ページを開いています...`);
+      console.error(messages.openingBrowser);
       console.error(`URL: ${authUrl.toString()}`);
       
       // ブラウザを開く
       try {
         await open(authUrl.toString());
       } catch (error: any) {
-        console.error('ブラウザを自動的に開けませんでした。以下のURLを手動で開いてください:');
+        console.error(messages.openBrowserFailed);
         console.error(authUrl.toString());
       }
     });
@@ -199,7 +199,7 @@ export async function authenticate(
     // エラーハンドリング
     server.on('error', (error: any) => {
       if (error.code === 'EADDRINUSE') {
-        reject(new Error(`ポート${OAUTH_CONFIG.PORT}は既に使用中です。別のプロセスを終了してから再度お試しください。`));
+        reject(new Error(messages.portInUse(OAUTH_CONFIG.PORT)));
       } else {
         reject(error);
       }
@@ -208,7 +208,7 @@ export async function authenticate(
     // タイムアウト設定（5分）
     setTimeout(() => {
       server.close();
-      reject(new Error('認証タイムアウト: 5分以内に認証を完了してください'));
+      reject(new Error(messages.timeout));
     }, 5 * 60 * 1000);
   });
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import * as fs from 'fs/promises';
+import { getCategoriesCachePath } from './config.js';
+import { foursquareAPI, type CategoryNode, type VenueCategory } from './api.js';
+
+/**
+ * キャッシュの有効期間（30日）
+ * カテゴリー階層はほとんど変わらないため、期限切れまではAPIを呼ばない
+ */
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * キャッシュファイルの型
+ */
+interface CategoriesCache {
+  fetchedAt: number;
+  categories: CategoryNode[];
+}
+
+/**
+ * カテゴリーの絞り込み条件（venue.categoriesを受け取り一致するか返す）
+ * incomplete はカテゴリー階層を読み込めず、名前の一致だけで判定していること（サブカテゴリーは一致しない）を表す
+ */
+export type CategoryMatcher = ((categories: Array<Pick<VenueCategory, 'id' | 'name'> & Partial<VenueCategory>>) => boolean) & {
+  incomplete: boolean;
+};
+
+/**
+ * ノードとそのサブカテゴリーをすべて列挙
+ */
+function flatten(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap(node => [node, ...flatten(node.categories || [])]);
+}
+
+/**
+ * ベニューカテゴリー階層
+ * /venues/categories の結果を設定ディレクトリにキャッシュする
+ */
+export class CategoryTaxonomy {
+  private cache: CategoriesCache | null = null;
+
+  /**
+   * キャッシュファイルを読み込み（存在しない場合はnull）
+   */
+  private async readCache(): Promise<CategoriesCache | null> {
+    const cachePath = await getCategoriesCachePath();
+    try {
+      const data = await fs.readFile(cachePath, 'utf-8');
+      return JSON.parse(data) as CategoriesCache;
+    } catch (error: any) {
+      // ファイルが存在しない場合はnullを返す
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * カテゴリー階層を取得
+   * キャッシュが有効期間内ならそれを使い、期限切れ・refresh指定時はAPIから取り直す。
+   * 取り直しに失敗した場合は古いキャッシュがあればそれを使う
+   */
+  async getCategories(options: { refresh?: boolean } = {}): Promise<CategoryNode[]> {
+    if (!this.cache) {
+      this.cache = await this.readCache();
+    }
+
+    const isFresh = this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL_MS;
+    if (this.cache && isFresh && !options.refresh) {
+      return this.cache.categories;
+    }
+
+    try {
+      const categories = await foursquareAPI.getVenueCategories();
+      this.cache = { fetchedAt: Date.now(), categories };
+      const cachePath = await getCategoriesCachePath();
+      await fs.writeFile(cachePath, JSON.stringify(this.cache), { mode: 0o600 });
+      return categories;
+    } catch (error) {
+      if (this.cache) {
+        return this.cache.categories;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * キャッシュを取得した日時（未取得の場合はnull）
+   */
+  getFetchedAt(): number | null {
+    return this.cache?.fetchedAt ?? null;
+  }
+
+  /**
+   * 名前（name・pluralName・shortNameのいずれか）が一致するカテゴリーを検索（大文字小文字を区別しない）
+   * 部分一致にすると "Bar" が "Barbershop" に一致するなど広がりすぎるため、完全一致で探す
+   */
+  async findCategories(query: string): Promise<CategoryNode[]> {
+    const needle = query.trim().toLowerCase();
+    return flatten(await this.getCategories()).filter(node =>
+      [node.name, node.pluralName, node.shortName].some(name => name?.toLowerCase() === needle)
+    );
+  }
+
+  /**
+   * サブカテゴリーも含めて一致するカテゴリー絞り込み条件を作成
+   * 例: "Food" は "Ramen Restaurant" にも一致する。
+   * カテゴリー階層を取得できない場合（未認証・オフライン等）はカテゴリー名（name・pluralName・shortName）の
+   * 完全一致のみで判定し、incomplete を立てる
+   */
+  async createMatcher(query: string): Promise<CategoryMatcher> {
+    const needle = query.trim().toLowerCase();
+    const ids = new Set<string>();
+    let incomplete = false;
+
+    try {
+      for (const node of await this.findCategories(query)) {
+        flatten([node]).forEach(descendant => ids.add(descendant.id));
+      }
+    } catch {
+      // 名前の完全一致にフォールバック
+      incomplete = true;
+    }
+
+    const matcher = (categories: Parameters<CategoryMatcher>[0]) => categories.some(category =>
+      ids.has(category.id) ||
+      [category.name, category.pluralName, category.shortName].some(name => name?.toLowerCase() === needle)
+    );
+    return Object.assign(matcher, { incomplete });
+  }
+}
+
+// シングルトンインスタンス
+export const categoryTaxonomy = new CategoryTaxonomy();
@@ -0,0 +1,62 @@
+import * as fs from 'fs/promises';
+import { getCheckpointPath } from './config.js';
+import type { Checkin, CheckinsQuery } from './api.js';
+
+/**
+ * 全件取得の中断時に保存するチェックポイントの型
+ */
+export interface CheckinsCheckpoint {
+  query: CheckinsQuery;
+  offset: number;
+  items: Checkin[];
+  savedAt: number;
+}
+
+/**
+ * チェックポイントを保存
+ */
+export async function saveCheckpoint(checkpoint: CheckinsCheckpoint): Promise<void> {
+  const checkpointPath = await getCheckpointPath();
+  await fs.writeFile(checkpointPath, JSON.stringify(checkpoint), { mode: 0o600 });
+}
+
+/**
+ * 同じ取得条件のチェックポイントを読み込み（条件が異なる・存在しない場合はnull）
+ */
+export async function loadCheckpoint(query: CheckinsQuery): Promise<CheckinsCheckpoint | null> {
+  const checkpointPath = await getCheckpointPath();
+
+  let checkpoint: CheckinsCheckpoint;
+  try {
+    const data = await fs.readFile(checkpointPath, 'utf-8');
+    checkpoint = JSON.parse(data) as CheckinsCheckpoint;
+  } catch (error: any) {
+    // ファイルが存在しない場合はnullを返す
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const matches =
+    checkpoint.query.afterTimestamp === query.afterTimestamp &&
+    checkpoint.query.beforeTimestamp === query.beforeTimestamp &&
+    checkpoint.query.sort === query.sort;
+
+  return matches ? checkpoint : null;
+}
+
+/**
+ * チェックポイントを削除
+ */
+export async function clearCheckpoint(): Promise<void> {
+  const checkpointPath = await getCheckpointPath();
+  try {
+    await fs.unlink(checkpointPath);
+  } catch (error: any) {
+    // ファイルが存在しない場合はエラーを無視
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
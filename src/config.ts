@@ -55,6 +55,38 @@ export async function getTokenPath(): Promise<string> {
   return path.join(configDir, 'token.json');
 }
 
+/**
+ * チェックイン全件取得のチェックポイントファイルのパスを取得
+ */
+export async function getCheckpointPath(): Promise<string> {
+  const configDir = await ensureConfigDir();
+  return path.join(configDir, 'checkins-checkpoint.json');
+}
+
+/**
+ * チェックインアーカイブ（JSONL）のパスを取得
+ */
+export async function getArchivePath(): Promise<string> {
+  const configDir = await ensureConfigDir();
+  return path.join(configDir, 'checkins.jsonl');
+}
+
+/**
+ * ベニューカテゴリー階層のキャッシュファイルのパスを取得
+ */
+export async function getCategoriesCachePath(): Promise<string> {
+  const configDir = await ensureConfigDir();
+  return path.join(configDir, 'categories.json');
+}
+
+/**
+ * ユーザー設定ファイルのパスを取得
+ */
+export async function getSettingsPath(): Promise<string> {
+  const configDir = await ensureConfigDir();
+  return path.join(configDir, 'config.json');
+}
+
 /**
  * OAuth設定
  */
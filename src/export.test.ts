@@ -0,0 +1,137 @@
+import { afterAll, afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { Checkin } from './api.js';
+import { exportCheckins, FileExistsError, writeExportFile } from './export.js';
+
+// エクスポートに使う項目を持つチェックイン（2025-05-01 12:00 JST）
+function checkin(overrides: { id?: string; name?: string; shout?: string; category?: string; createdAt?: number } = {}): Checkin {
+  return {
+    id: overrides.id ?? 'c1',
+    createdAt: overrides.createdAt ?? 1746068400,
+    timeZoneOffset: 540,
+    shout: overrides.shout,
+    venue: {
+      id: 'v1',
+      name: overrides.name ?? 'Cafe',
+      categories: overrides.category ? [{ id: 'cat', name: overrides.category, primary: true }] : [],
+      location: { lat: 35.5, lng: 139.25, formattedAddress: ['Shibuya', 'Tokyo'], city: 'Shibuya', country: 'Japan' }
+    }
+  } as unknown as Checkin;
+}
+
+describe('GeoJSON', () => {
+  test('writes coordinates as [longitude, latitude] with local timestamps', () => {
+    const collection = JSON.parse(exportCheckins([checkin({ shout: 'hi' })], 'geojson'));
+    expect(collection.features[0].geometry.coordinates).toEqual([139.25, 35.5]);
+    expect(collection.features[0].properties).toMatchObject({ id: 'c1', timestamp: '2025-05-01T12:00:00+09:00', shout: 'hi', category: null });
+  });
+});
+
+describe('GPX', () => {
+  const gpx = exportCheckins([
+    checkin({ id: 'later', name: 'Tom & Jerry <Bar>', shout: '"quoted" \'shout\'', createdAt: 1746072000 }),
+    checkin({ id: 'earlier', name: 'First' })
+  ], 'gpx');
+
+  test('escapes XML special characters', () => {
+    expect(gpx).toContain('<name>Tom &amp; Jerry &lt;Bar&gt;</name>');
+    expect(gpx).toContain('<desc>&quot;quoted&quot; &apos;shout&apos;</desc>');
+  });
+
+  test('writes times in UTC and orders the track from oldest', () => {
+    expect(gpx).toContain('<time>2025-05-01T03:00:00.000Z</time>');
+    const track = gpx.slice(gpx.indexOf('<trkseg>'));
+    expect(track.indexOf('First')).toBeLessThan(track.indexOf('Tom &amp; Jerry'));
+  });
+});
+
+describe('KML', () => {
+  test('escapes names and extended data and skips missing values', () => {
+    const kml = exportCheckins([checkin({ name: 'A & B', category: 'Café <Bar>' })], 'kml');
+    expect(kml).toContain('<name>A &amp; B</name>');
+    expect(kml).toContain('<Data name="category"><value>Café &lt;Bar&gt;</value></Data>');
+    expect(kml).not.toContain('<Data name="shout">');
+    expect(kml).toContain('<coordinates>139.25,35.5</coordinates>');
+  });
+});
+
+describe('CSV', () => {
+  test('quotes values with commas, quotes and line breaks and ends rows with CRLF', () => {
+    const csv = exportCheckins([checkin({ name: 'Tom, Jerry', shout: 'say "hi"\nbye' })], 'csv');
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe('id,timestamp,venueId,name,category,address,city,country,lat,lng,shout');
+    expect(row).toBe('c1,2025-05-01T12:00:00+09:00,v1,"Tom, Jerry",,"Shibuya, Tokyo",Shibuya,Japan,35.5,139.25,"say ""hi""\nbye"');
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+});
+
+describe('ICS', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  // 折り返しを戻して1行ずつに分割
+  function unfold(ics: string): string[] {
+    return ics.replace(/\r\n /g, '').split('\r\n');
+  }
+
+  test('stamps events with the export time and keeps the checkin time in CREATED', () => {
+    setSystemTime(new Date('2026-01-02T03:04:05Z'));
+    const lines = unfold(exportCheckins([checkin()], 'ics'));
+    expect(lines).toContain('DTSTAMP:20260102T030405Z');
+    expect(lines).toContain('CREATED:20250501T030000Z');
+  });
+
+  test('starts events at the local time of a fixed-offset time zone', () => {
+    const lines = unfold(exportCheckins([checkin()], 'ics'));
+    expect(lines).toContain('TZID:UTC+09:00');
+    expect(lines).toContain('TZOFFSETTO:+0900');
+    expect(lines).toContain('DTSTART;TZID=UTC+09:00:20250501T120000');
+    expect(lines).toContain('DTEND;TZID=UTC+09:00:20250501T130000');
+  });
+
+  test('escapes backslashes, semicolons, commas and line breaks in text', () => {
+    const lines = unfold(exportCheckins([checkin({ name: 'A; B, C\\D', shout: 'line1\nline2' })], 'ics'));
+    expect(lines).toContain('SUMMARY:A\\; B\\, C\\\\D');
+    expect(lines).toContain('DESCRIPTION:line1\\nline2');
+  });
+
+  test('folds lines at 75 octets without splitting multibyte characters', () => {
+    const ics = exportCheckins([checkin({ name: 'ラーメン'.repeat(20) })], 'ics');
+    const encoder = new TextEncoder();
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${'ラーメン'.repeat(20)}`);
+  });
+});
+
+describe('writeExportFile', () => {
+  const dir = path.join(os.tmpdir(), `foursquare-mcp-export-${process.pid}`);
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('creates missing directories and returns the absolute path', async () => {
+    const written = await writeExportFile(path.join(dir, 'nested', 'out.csv'), 'first');
+    expect(path.isAbsolute(written)).toBe(true);
+    expect(await fs.readFile(written, 'utf-8')).toBe('first');
+  });
+
+  test('refuses to replace an existing file', async () => {
+    const file = path.join(dir, 'existing.csv');
+    await writeExportFile(file, 'first');
+    await expect(writeExportFile(file, 'second')).rejects.toBeInstanceOf(FileExistsError);
+    expect(await fs.readFile(file, 'utf-8')).toBe('first');
+  });
+
+  test('replaces an existing file with overwrite', async () => {
+    const file = path.join(dir, 'overwrite.csv');
+    await writeExportFile(file, 'first');
+    await writeExportFile(file, 'second', true);
+    expect(await fs.readFile(file, 'utf-8')).toBe('second');
+  });
+});
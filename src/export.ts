@@ -0,0 +1,347 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import { foursquareAPI, type Checkin } from './api.js';
+import { toMapHTML } from './map.js';
+
+// dayjsプラグインを読み込み
+dayjs.extend(utc);
+
+/**
+ * チェックインのエクスポート形式
+ */
+export const EXPORT_FORMATS = ['geojson', 'gpx', 'kml', 'csv', 'ics', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * エクスポートする1件分の項目
+ */
+interface ExportRecord {
+  id: string;
+  venueId: string;
+  name: string;
+  category?: string;
+  timestamp: string; // 現地時刻（UTCオフセット付きのISO 8601）
+  utcTimestamp: string;
+  createdAt: number;
+  timeZoneOffset: number;
+  shout?: string;
+  address?: string;
+  city?: string;
+  country?: string;
+  lat: number;
+  lng: number;
+  text: string; // formatCheckinで整形した内容
+}
+
+function toExportRecord(checkin: Checkin): ExportRecord {
+  const { venue } = checkin;
+  const category = venue.categories.find(c => c.primary) ?? venue.categories[0];
+  const localTime = foursquareAPI.getCheckinLocalTime(checkin);
+  return {
+    id: checkin.id,
+    venueId: venue.id,
+    name: venue.name,
+    category: category?.name,
+    timestamp: localTime.format(),
+    utcTimestamp: dayjs.unix(checkin.createdAt).toISOString(),
+    createdAt: checkin.createdAt,
+    timeZoneOffset: localTime.utcOffset(),
+    shout: checkin.shout,
+    address: venue.location.formattedAddress?.join(', ') || venue.location.address,
+    city: venue.location.city,
+    country: venue.location.country,
+    lat: venue.location.lat,
+    lng: venue.location.lng,
+    text: foursquareAPI.formatCheckin(checkin)
+  };
+}
+
+// XMLの特殊文字をエスケープ
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * GeoJSONのFeatureCollectionに変換（座標は [経度, 緯度] の順）
+ */
+function toGeoJSON(records: ExportRecord[]): string {
+  const collection = {
+    type: 'FeatureCollection',
+    features: records.map(record => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [record.lng, record.lat]
+      },
+      properties: {
+        id: record.id,
+        venueId: record.venueId,
+        name: record.name,
+        category: record.category ?? null,
+        timestamp: record.timestamp,
+        shout: record.shout ?? null
+      }
+    }))
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+/**
+ * GPXに変換（各チェックインのウェイポイントと、古い順につないだトラック）
+ * GPXの時刻はUTCで出力する
+ */
+function toGPX(records: ExportRecord[]): string {
+  const waypoints = records.map(record => [
+    `  <wpt lat="${record.lat}" lon="${record.lng}">`,
+    `    <time>${record.utcTimestamp}</time>`,
+    `    <name>${escapeXml(record.name)}</name>`,
+    ...(record.shout ? [`    <desc>${escapeXml(record.shout)}</desc>`] : []),
+    ...(record.category ? [`    <type>${escapeXml(record.category)}</type>`] : []),
+    '  </wpt>'
+  ].join('\n'));
+
+  const trackPoints = [...records]
+    .sort((a, b) => a.utcTimestamp.localeCompare(b.utcTimestamp))
+    .map(record => [
+      `      <trkpt lat="${record.lat}" lon="${record.lng}">`,
+      `        <time>${record.utcTimestamp}</time>`,
+      `        <name>${escapeXml(record.name)}</name>`,
+      '      </trkpt>'
+    ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="foursquare-mcp" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    '  <trk>',
+    '    <name>Foursquare checkins</name>',
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * KMLに変換（チェックインごとのPlacemark。カテゴリー等はExtendedDataに入れる）
+ */
+function toKML(records: ExportRecord[]): string {
+  const placemarks = records.map(record => {
+    const data: Array<[string, string | undefined]> = [
+      ['category', record.category],
+      ['timestamp', record.timestamp],
+      ['shout', record.shout],
+      ['venueId', record.venueId]
+    ];
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(record.name)}</name>`,
+      ...(record.shout ? [`      <description>${escapeXml(record.shout)}</description>`] : []),
+      `      <TimeStamp><when>${record.timestamp}</when></TimeStamp>`,
+      '      <ExtendedData>',
+      ...data
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(value!)}</value></Data>`),
+      '      </ExtendedData>',
+      `      <Point><coordinates>${record.lng},${record.lat}</coordinates></Point>`,
+      '    </Placemark>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>Foursquare checkins</name>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+// CSVの値をエスケープ（区切り文字・引用符・改行を含む場合は引用符で囲む）
+function escapeCsv(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSVに変換（RFC 4180に合わせて改行はCRLF）
+ */
+function toCSV(records: ExportRecord[]): string {
+  const header = ['id', 'timestamp', 'venueId', 'name', 'category', 'address', 'city', 'country', 'lat', 'lng', 'shout'];
+  const rows = records.map(record => [
+    record.id,
+    record.timestamp,
+    record.venueId,
+    record.name,
+    record.category,
+    record.address,
+    record.city,
+    record.country,
+    record.lat,
+    record.lng,
+    record.shout
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// カレンダーの予定の長さ（チェックインには終了時刻が無いため固定）
+const EVENT_DURATION_MINUTES = 60;
+
+// iCalendarのテキスト値をエスケープ
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// iCalendarの行を75オクテットごとに折り返す（マルチバイト文字の途中では切らない）
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // 2行目以降は先頭の空白1文字分を含めて75オクテット以内にする
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      chunks.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+// UTCからのオフセット（分）をタイムゾーンIDとiCalendarのオフセット表記に変換（例: 540 → "UTC+09:00", "+0900"）
+function formatIcsOffset(offset: number): { tzid: string; value: string } {
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return { tzid: `UTC${sign}${hours}:${minutes}`, value: `${sign}${hours}${minutes}` };
+}
+
+/**
+ * iCalendar（ICS）に変換
+ * チェックインごとに1件の予定を作り、ベニューの所在地と現地時刻で登録する
+ * 現地時刻はtimeZoneOffsetごとに固定オフセットのVTIMEZONEを定義して表す
+ * DTSTAMPは書き出した時刻、CREATEDはチェックインした時刻（いずれもUTC）
+ */
+function toICS(records: ExportRecord[]): string {
+  const offsets = [...new Set(records.map(record => record.timeZoneOffset))].sort((a, b) => a - b);
+  const timezones = offsets.flatMap(offset => {
+    const { tzid, value } = formatIcsOffset(offset);
+    return [
+      'BEGIN:VTIMEZONE',
+      `TZID:${tzid}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${value}`,
+      `TZOFFSETTO:${value}`,
+      `TZNAME:${tzid}`,
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ];
+  });
+
+  const stamp = dayjs().utc().format('YYYYMMDD[T]HHmmss[Z]');
+  const events = records.flatMap(record => {
+    const { tzid } = formatIcsOffset(record.timeZoneOffset);
+    const start = dayjs.unix(record.createdAt).utcOffset(record.timeZoneOffset);
+    const end = start.add(EVENT_DURATION_MINUTES, 'minute');
+    const description = [record.category, record.shout].filter(Boolean).join('\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${record.id}@foursquare.com`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${dayjs.unix(record.createdAt).utc().format('YYYYMMDD[T]HHmmss[Z]')}`,
+      `DTSTART;TZID=${tzid}:${start.format('YYYYMMDD[T]HHmmss')}`,
+      `DTEND;TZID=${tzid}:${end.format('YYYYMMDD[T]HHmmss')}`,
+      `SUMMARY:${escapeIcsText(record.name)}`,
+      `LOCATION:${escapeIcsText(record.address || record.name)}`,
+      `GEO:${record.lat};${record.lng}`,
+      ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+      ...(record.category ? [`CATEGORIES:${escapeIcsText(record.category)}`] : []),
+      `URL:https://foursquare.com/v/${record.venueId}`,
+      'END:VEVENT'
+    ];
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//foursquare-mcp//Foursquare checkins//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Foursquare checkins',
+    ...timezones,
+    ...events,
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * チェックイン一覧を指定形式の文字列に変換
+ */
+export function exportCheckins(checkins: Checkin[], format: ExportFormat): string {
+  const records = checkins.map(toExportRecord);
+  switch (format) {
+    case 'geojson':
+      return toGeoJSON(records);
+    case 'gpx':
+      return toGPX(records);
+    case 'kml':
+      return toKML(records);
+    case 'csv':
+      return toCSV(records);
+    case 'ics':
+      return toICS(records);
+    case 'html':
+      return toMapHTML(records.map(({ lat, lng, text }) => ({ lat, lng, text })));
+  }
+}
+
+/**
+ * 書き込み先のファイルが既に存在する場合のエラー
+ */
+export class FileExistsError extends Error {
+  constructor(public path: string) {
+    super(`File already exists: ${path}`);
+    this.name = 'FileExistsError';
+  }
+}
+
+/**
+ * エクスポート結果をファイルに書き込み、書き込んだ絶対パスを返す
+ * 既存のファイルは overwrite を指定しない限り上書きせず FileExistsError を投げる
+ */
+export async function writeExportFile(filePath: string, content: string, overwrite = false): Promise<string> {
+  const absolutePath = path.resolve(filePath);
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  try {
+    await fs.writeFile(absolutePath, content, { flag: overwrite ? 'w' : 'wx' });
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      throw new FileExistsError(absolutePath);
+    }
+    throw error;
+  }
+  return absolutePath;
+}
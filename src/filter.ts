@@ -0,0 +1,108 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type { Checkin, Venue } from './api.js';
+import { categoryTaxonomy } from './categories.js';
+import { settingsManager } from './settings.js';
+import { t } from './i18n.js';
+
+// dayjsプラグインを読み込み
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * チェックインの絞り込み条件
+ */
+export interface CheckinFilter {
+  category?: string;
+  city?: string;
+}
+
+/**
+ * YYYY-MM-DD形式の日付を、その日の開始時刻（表示用タイムゾーン）のUnixタイムスタンプに変換
+ */
+export function dateToTimestamp(date: string): number {
+  return dayjs.tz(date, settingsManager.get().timezone).startOf('day').unix();
+}
+
+/**
+ * UnixタイムスタンプをYYYY-MM-DD形式（表示用タイムゾーン）の日付に変換
+ */
+export function timestampToDate(timestamp: number): string {
+  return dayjs.unix(timestamp).tz(settingsManager.get().timezone).format('YYYY-MM-DD');
+}
+
+/**
+ * YYYY-MM-DD形式の日付にdays日を足した日付を取得（負の値で過去）
+ */
+export function addDays(date: string, days: number): string {
+  return dayjs.tz(date, settingsManager.get().timezone).add(days, 'day').format('YYYY-MM-DD');
+}
+
+/**
+ * 表示用タイムゾーンの今日の日付をYYYY-MM-DD形式で取得
+ */
+export function today(): string {
+  return dayjs().tz(settingsManager.get().timezone).format('YYYY-MM-DD');
+}
+
+/**
+ * YYYY-MM-DD形式の期間をチェックイン取得用のタイムスタンプ範囲に変換（終了日は当日の終わりまで含む）
+ */
+export function dateRangeToTimestamps(from?: string, to?: string): { afterTimestamp?: number; beforeTimestamp?: number } {
+  const { timezone } = settingsManager.get();
+  return {
+    afterTimestamp: from ? dateToTimestamp(from) : undefined,
+    beforeTimestamp: to ? dayjs.tz(to, timezone).endOf('day').unix() : undefined
+  };
+}
+
+/**
+ * 市区町村・都道府県・住所に指定文字列を含むか（大文字小文字を区別しない）
+ */
+export function matchesCity(checkin: Checkin, city: string): boolean {
+  const needle = city.toLowerCase();
+  const location = checkin.venue.location;
+  const fields = [
+    location.city,
+    location.state,
+    ...(location.formattedAddress || [])
+  ];
+  return fields.some(field => field?.toLowerCase().includes(needle));
+}
+
+/**
+ * カテゴリーの絞り込み条件を作成
+ * カテゴリー階層を読み込めなかった場合は、サブカテゴリーを取りこぼすことをstderrに警告する
+ */
+async function createCategoryMatcher(category: string) {
+  const matcher = await categoryTaxonomy.createMatcher(category);
+  if (matcher.incomplete) {
+    console.error(t().common.categoryTaxonomyUnavailable(category));
+  }
+  return matcher;
+}
+
+/**
+ * カテゴリー・都市でチェックインを絞り込み
+ * カテゴリーはサブカテゴリーも含めて一致する（例: "Food" は "Ramen Restaurant" にも一致）
+ */
+export async function filterCheckins(checkins: Checkin[], filter: CheckinFilter): Promise<Checkin[]> {
+  const matchesCategory = filter.category ? await createCategoryMatcher(filter.category) : null;
+
+  return checkins.filter(checkin =>
+    (!matchesCategory || matchesCategory(checkin.venue.categories)) &&
+    (!filter.city || matchesCity(checkin, filter.city))
+  );
+}
+
+/**
+ * カテゴリーでベニューを絞り込み（サブカテゴリーも含めて一致）
+ */
+export async function filterVenues(venues: Venue[], category?: string): Promise<Venue[]> {
+  if (!category) {
+    return venues;
+  }
+  const matchesCategory = await createCategoryMatcher(category);
+  return venues.filter(venue => matchesCategory(venue.categories || []));
+}
@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+import type { Checkin } from './api.js';
+import {
+  findCheckinsInBoundingBox,
+  findCheckinsWithinRadius,
+  findNearestVenues,
+  formatDistance,
+  getBoundingBoxCenter,
+  haversineDistance,
+  isInBoundingBox,
+  isValidBoundingBox,
+  isValidLatLng,
+  parseBoundingBox,
+  parseLatLng
+} from './geo.js';
+
+// 位置と日時だけを持つチェックイン
+function checkin(id: string, venueId: string, lat: number, lng: number, createdAt = 0): Checkin {
+  return { id, createdAt, venue: { id: venueId, name: venueId, categories: [], location: { lat, lng } } } as unknown as Checkin;
+}
+
+const TOKYO_STATION = { lat: 35.681236, lng: 139.767125 };
+const SHINJUKU_STATION = { lat: 35.690921, lng: 139.700258 };
+
+describe('haversineDistance', () => {
+  test('is zero for the same point', () => {
+    expect(haversineDistance(TOKYO_STATION, TOKYO_STATION)).toBe(0);
+  });
+
+  test('measures the distance between two stations', () => {
+    expect(haversineDistance(TOKYO_STATION, SHINJUKU_STATION)).toBeCloseTo(6134, 0);
+  });
+
+  test('measures one degree of latitude as about 111km', () => {
+    expect(haversineDistance({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111195, -1);
+  });
+
+  test('takes the short way across the antimeridian', () => {
+    expect(haversineDistance({ lat: 0, lng: 179.5 }, { lat: 0, lng: -179.5 })).toBeCloseTo(111195, -1);
+  });
+
+  test('measures antipodal points as half the circumference', () => {
+    expect(haversineDistance({ lat: 0, lng: 0 }, { lat: 0, lng: 180 })).toBeCloseTo(Math.PI * 6371008.8, 0);
+  });
+});
+
+describe('parsing and validation', () => {
+  test('parses latitude,longitude', () => {
+    expect(parseLatLng('35.5,139.25')).toEqual({ lat: 35.5, lng: 139.25 });
+  });
+
+  test('parses a bounding box', () => {
+    expect(parseBoundingBox('35,139,36,140')).toEqual({ sw: { lat: 35, lng: 139 }, ne: { lat: 36, lng: 140 } });
+  });
+
+  test('rejects out-of-range coordinates', () => {
+    expect(isValidLatLng({ lat: 90, lng: -180 })).toBe(true);
+    expect(isValidLatLng({ lat: 90.1, lng: 0 })).toBe(false);
+    expect(isValidLatLng({ lat: 0, lng: 180.1 })).toBe(false);
+  });
+
+  test('rejects a bounding box whose south is north of its north', () => {
+    expect(isValidBoundingBox(parseBoundingBox('36,139,35,140'))).toBe(false);
+  });
+
+  test('accepts a bounding box across the antimeridian', () => {
+    expect(isValidBoundingBox(parseBoundingBox('-10,170,10,-170'))).toBe(true);
+  });
+});
+
+describe('bounding boxes', () => {
+  const acrossAntimeridian = parseBoundingBox('-10,170,10,-170');
+
+  test('includes points on the edge', () => {
+    expect(isInBoundingBox({ lat: 35, lng: 139 }, parseBoundingBox('35,139,36,140'))).toBe(true);
+  });
+
+  test('handles boxes across the antimeridian', () => {
+    expect(isInBoundingBox({ lat: 0, lng: 175 }, acrossAntimeridian)).toBe(true);
+    expect(isInBoundingBox({ lat: 0, lng: -175 }, acrossAntimeridian)).toBe(true);
+    expect(isInBoundingBox({ lat: 0, lng: 0 }, acrossAntimeridian)).toBe(false);
+  });
+
+  test('centers boxes across the antimeridian on it', () => {
+    expect(getBoundingBoxCenter(acrossAntimeridian)).toEqual({ lat: 0, lng: 180 });
+  });
+});
+
+describe('nearest-point search', () => {
+  const checkins = [
+    checkin('far', 'shinjuku', SHINJUKU_STATION.lat, SHINJUKU_STATION.lng, 100),
+    checkin('old', 'tokyo', TOKYO_STATION.lat, TOKYO_STATION.lng, 100),
+    checkin('new', 'tokyo', TOKYO_STATION.lat, TOKYO_STATION.lng, 200)
+  ];
+
+  test('keeps checkins within the radius, nearest and then newest first', () => {
+    expect(findCheckinsWithinRadius(checkins, TOKYO_STATION, 1000).map(result => result.checkin.id)).toEqual(['new', 'old']);
+  });
+
+  test('keeps checkins in the bounding box', () => {
+    const box = parseBoundingBox('35.68,139.69,35.70,139.71');
+    expect(findCheckinsInBoundingBox(checkins, box, TOKYO_STATION).map(result => result.checkin.id)).toEqual(['far']);
+  });
+
+  test('lists each venue once with its latest checkin and visit count', () => {
+    const venues = findNearestVenues(checkins, TOKYO_STATION);
+    expect(venues.map(({ checkin, visitCount }) => [checkin.id, visitCount])).toEqual([['new', 2], ['far', 1]]);
+  });
+
+  test('formats meters below 1km and kilometers above', () => {
+    expect(formatDistance(999.4)).toBe('999m');
+    expect(formatDistance(1000)).toBe('1.0km');
+    expect(formatDistance(6140)).toBe('6.1km');
+  });
+});
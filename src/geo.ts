@@ -0,0 +1,149 @@
+import type { Checkin } from './api.js';
+
+/**
+ * 緯度経度の型
+ */
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 範囲指定の矩形（南西端と北東端）
+ */
+export interface BoundingBox {
+  sw: LatLng;
+  ne: LatLng;
+}
+
+/**
+ * 基準地点からの距離付きのチェックイン
+ * visitCountは同じベニューへのチェックイン回数（最寄りのベニュー検索の場合のみ）
+ */
+export interface CheckinDistance {
+  checkin: Checkin;
+  distance: number;
+  visitCount?: number;
+}
+
+// 地球の平均半径（メートル）
+const EARTH_RADIUS = 6371008.8;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * "緯度,経度" 形式の文字列を変換
+ */
+export function parseLatLng(value: string): LatLng {
+  const [lat = NaN, lng = NaN] = value.split(',').map(Number);
+  return { lat, lng };
+}
+
+/**
+ * "南西の緯度,南西の経度,北東の緯度,北東の経度" 形式の文字列を変換
+ */
+export function parseBoundingBox(value: string): BoundingBox {
+  const [swLat = NaN, swLng = NaN, neLat = NaN, neLng = NaN] = value.split(',').map(Number);
+  return { sw: { lat: swLat, lng: swLng }, ne: { lat: neLat, lng: neLng } };
+}
+
+/**
+ * 矩形の中心
+ * 日付変更線をまたぐ矩形（南西の経度 > 北東の経度）にも対応する
+ */
+export function getBoundingBoxCenter(box: BoundingBox): LatLng {
+  const lngSpan = box.sw.lng <= box.ne.lng ? box.ne.lng - box.sw.lng : box.ne.lng + 360 - box.sw.lng;
+  const lng = box.sw.lng + lngSpan / 2;
+  return { lat: (box.sw.lat + box.ne.lat) / 2, lng: lng > 180 ? lng - 360 : lng };
+}
+
+/**
+ * 2地点間の距離（メートル）をハーバーサイン公式で計算
+ */
+export function haversineDistance(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * 地点が矩形の内側にあるか（日付変更線をまたぐ矩形にも対応）
+ */
+export function isInBoundingBox(point: LatLng, box: BoundingBox): boolean {
+  if (point.lat < box.sw.lat || point.lat > box.ne.lat) {
+    return false;
+  }
+  return box.sw.lng <= box.ne.lng
+    ? point.lng >= box.sw.lng && point.lng <= box.ne.lng
+    : point.lng >= box.sw.lng || point.lng <= box.ne.lng;
+}
+
+/**
+ * 緯度が-90〜90、経度が-180〜180の範囲内か
+ */
+export function isValidLatLng(point: LatLng): boolean {
+  return Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180;
+}
+
+/**
+ * 矩形の両端が範囲内で、南西の緯度が北東の緯度以下か
+ * 経度は日付変更線をまたぐ矩形のため南西 > 北東 も許す
+ */
+export function isValidBoundingBox(box: BoundingBox): boolean {
+  return isValidLatLng(box.sw) && isValidLatLng(box.ne) && box.sw.lat <= box.ne.lat;
+}
+
+function getCheckinLatLng(checkin: Checkin): LatLng {
+  return { lat: checkin.venue.location.lat, lng: checkin.venue.location.lng };
+}
+
+/**
+ * チェックインに基準地点からの距離を付けて近い順に並べる
+ */
+export function sortByDistance(checkins: Checkin[], origin: LatLng): CheckinDistance[] {
+  return checkins
+    .map(checkin => ({ checkin, distance: haversineDistance(origin, getCheckinLatLng(checkin)) }))
+    .sort((a, b) => a.distance - b.distance || b.checkin.createdAt - a.checkin.createdAt);
+}
+
+/**
+ * 基準地点から半径radiusメートル以内のチェックイン（近い順）
+ */
+export function findCheckinsWithinRadius(checkins: Checkin[], origin: LatLng, radius: number): CheckinDistance[] {
+  return sortByDistance(checkins, origin).filter(({ distance }) => distance <= radius);
+}
+
+/**
+ * 矩形の内側のチェックイン（基準地点から近い順）
+ */
+export function findCheckinsInBoundingBox(checkins: Checkin[], box: BoundingBox, origin: LatLng): CheckinDistance[] {
+  return sortByDistance(checkins.filter(checkin => isInBoundingBox(getCheckinLatLng(checkin), box)), origin);
+}
+
+/**
+ * 基準地点から近い順に、訪問済みのベニューを重複なく並べる
+ * 各ベニューは最新のチェックインと訪問回数で表す
+ */
+export function findNearestVenues(checkins: Checkin[], origin: LatLng): CheckinDistance[] {
+  const venues = new Map<string, CheckinDistance>();
+  for (const result of sortByDistance(checkins, origin)) {
+    const venue = venues.get(result.checkin.venue.id);
+    if (!venue) {
+      venues.set(result.checkin.venue.id, { ...result, visitCount: 1 });
+    } else {
+      venue.visitCount = (venue.visitCount ?? 0) + 1;
+    }
+  }
+  return [...venues.values()];
+}
+
+/**
+ * 距離を表示用にフォーマット（1km未満はメートル、それ以上はキロメートル）
+ */
+export function formatDistance(distance: number): string {
+  return distance < 1000 ? `${Math.round(distance)}m` : `${(distance / 1000).toFixed(1)}km`;
+}
@@ -0,0 +1,17 @@
+import { settingsManager, type Locale } from './settings.js';
+import { ja, type Messages } from './locales/ja.js';
+import { en } from './locales/en.js';
+
+export type { Messages };
+
+/**
+ * 言語ごとのメッセージカタログ
+ */
+const catalogs: Record<Locale, Messages> = { ja, en };
+
+/**
+ * 現在の表示言語のメッセージカタログを取得
+ */
+export function t(): Messages {
+  return catalogs[settingsManager.get().locale];
+}
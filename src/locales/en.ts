@@ -0,0 +1,635 @@
+import type { Messages } from './ja.js';
+
+// 件数に応じて単数形・複数形を切り替える（例: 1 checkin / 2 checkins）
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * 英語のメッセージカタログ
+ */
+export const en: Messages = {
+  dateTimeFormat: 'MMM D, YYYY HH:mm',
+
+  common: {
+    error: (message: string) => `❌ Error: ${message}`,
+    authenticateHint: 'Please authenticate with the "authenticate" tool.',
+    rateLimited: (message: string) => `⏸️ Stopped by rate limit: ${message}`,
+    checkpointSaved: 'The checkins fetched so far have been saved to a checkpoint.',
+    fileExists: (path: string) => `❌ File already exists: ${path}\nSet overwrite (--overwrite on the CLI) to replace it.`,
+    progress: (fetched: number, total?: number) => total === undefined ? `${fetched} fetched` : `${fetched}/${total} fetched`,
+    llFormat: 'Use the format latitude,longitude',
+    dateFormat: 'Use the format YYYY-MM-DD',
+    bboxFormat: 'Use the format swLat,swLng,neLat,neLng',
+    llRange: 'Latitude must be between -90 and 90 and longitude between -180 and 180',
+    categoryTaxonomyUnavailable: (category: string) => `⚠️ The category hierarchy could not be loaded, so "${category}" only matches categories with that exact name (subcategories are not included)`,
+    bboxRange: 'Latitude must be between -90 and 90 and longitude between -180 and 180, with the south-west latitude not above the north-east latitude',
+    noHistoryForLocation: '❌ Error: No checkin history found. Please specify ll or near',
+    dryRunNotPosted: (preview: string) => `🧪 Dry run (nothing was posted)\n\n${preview}`,
+    confirmTitle: 'Proceed',
+    confirmDescription: 'Check this and submit to proceed',
+    elicitationUnsupported: '❌ This client does not support elicitation (confirmation prompts), so the action cannot be run.\n\nReview it with dryRun, then run it from a client that supports elicitation.',
+    cancelled: '🚫 Cancelled.'
+  },
+
+  params: {
+    limit: (max: number) => `Number of results (max ${max})`,
+    afterTimestamp: 'Only checkins after this Unix timestamp',
+    beforeTimestamp: 'Only checkins before this Unix timestamp',
+    sort: 'Sort order',
+    resume: 'Resume from the checkpoint saved when a rate limit interrupted fetching',
+    overwrite: 'Replace the file at path if it already exists',
+    source: 'Where to read from (archive is the local archive saved by sync-checkins)',
+    historySource: 'Where to read the checkin history to match against (archive is the local archive saved by sync-checkins; api fetches the whole history and uses many requests; an empty archive falls back to the api)',
+    category: 'Filter by exact category name (case-insensitive), including subcategories (e.g. Food)',
+    ll: 'Center of the search (latitude,longitude)',
+    near: 'Place name to search near (instead of ll)',
+    radius: 'Search radius in meters',
+    query: 'Search keyword',
+    city: 'Filter by city name',
+    listId: 'List ID',
+    tipId: 'Tip ID',
+    venueId: 'Venue ID',
+    dryRunPost: 'Show what would be sent without posting',
+    from: 'Only include checkins on or after this date (YYYY-MM-DD)',
+    to: 'Only include checkins up to and including this date (YYYY-MM-DD)'
+  },
+
+  format: {
+    bothTimes: (local: string, home: string, timezone: string) => `${local} (local) / ${home} (${timezone})`,
+    noDeadline: 'no deadline',
+    photos: (count: number) => `📸 Photos (${count})`,
+    listSpots: (count: number, summary: string) => `📍 ${plural(count, 'place')}${summary}`,
+    spotHeader: (index: number) => `--- Place #${index} ---`,
+    dayNames: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+    dayRange: (first: string, last: string) => `${first}–${last}`,
+    daySeparator: '/',
+    time: (hhmm: string, nextDay: boolean) => `${hhmm}${nextDay ? ' (next day)' : ''}`,
+    rating: (rating: number) => `⭐ Rating: ${rating}/10`,
+    price: (price: string) => `💴 Price: ${price}`,
+    hours: '🕒 Hours:',
+    attributes: 'ℹ️ Attributes:',
+    popularTips: '📝 Popular tips:',
+    unavailable: '⚠️ Could not fetch:'
+  },
+
+  api: {
+    tokenNotFound: 'No token found. Please authenticate first.'
+  },
+
+  auth: {
+    credentialsRequired: 'CLIENT_ID and CLIENT_SECRET are required. Set them as environment variables or pass them as parameters.',
+    errorTitle: 'Authentication error',
+    errorPage: (error: string) => `Foursquare authentication failed: ${error}`,
+    closeAndRetry: 'Please close this window and try again.',
+    authError: (error: string) => `Authentication error: ${error}`,
+    codeNotFound: 'Authorization code not found',
+    tokenError: (error: string) => `Failed to get token: ${error}`,
+    noAccessToken: 'Could not get an access token',
+    successTitle: 'Authenticated',
+    successHeading: '✅ Authenticated!',
+    successCompleted: 'Foursquare authentication is complete.',
+    successSaved: 'Your token has been stored securely.',
+    successClose: 'You can close this window and start using the MCP tools.',
+    genericErrorTitle: 'Error',
+    serverTitle: 'Foursquare authentication',
+    serverHeading: 'Foursquare authentication server',
+    waiting: 'Waiting for authentication...',
+    serverStarted: (url: string) => `Authentication server started: ${url}`,
+    openingBrowser: 'Opening the authentication page in your browser...',
+    openBrowserFailed: 'Could not open a browser automatically. Please open this URL manually:',
+    portInUse: (port: number) => `Port ${port} is already in use. Stop the other process and try again.`,
+    timeout: 'Authentication timed out: please finish authenticating within 5 minutes'
+  },
+
+  checkins: {
+    notFound: 'No checkins found.',
+    found: (count: number) => `🎯 Fetched ${plural(count, 'checkin')}`,
+    header: (index: number) => `--- Checkin #${index} ---`
+  },
+
+  venues: {
+    notFound: 'No venues found.',
+    found: (count: number) => `🔍 Found ${plural(count, 'venue')}`,
+    foundWithVisits: (count: number, visited: number) => `🔍 ${plural(count, 'venue')} (${visited} visited)`,
+    header: (index: number) => `--- Venue #${index} ---`,
+    visited: (count: number, lastVisit: string) => `✅ Visited (${plural(count, 'time')}, last visit: ${lastVisit})`,
+    notVisited: '🆕 Not visited yet',
+    placeHeader: (index: number) => `--- Candidate #${index} ---`
+  },
+
+  tips: {
+    notFound: 'No tips found.',
+    found: (count: number) => `📝 Fetched ${plural(count, 'tip')}`,
+    header: (index: number) => `--- Tip #${index} ---`
+  },
+
+  tastes: {
+    notFound: 'No tastes found.'
+  },
+
+  cli: {
+    authHint: [
+      '\nIf you need to authenticate, start the MCP server and use the authenticate tool,',
+      'or set the FOURSQUARE_ACCESS_TOKEN environment variable.'
+    ],
+    progress: (fetched: number, total?: number) => total === undefined ? `⏳ ${fetched} fetched` : `⏳ ${fetched}/${total} fetched`,
+    resumeFetch: 'Wait a while and run again with --resume to continue fetching.',
+    resumeSync: 'Wait a while and run again with --resume to continue syncing.',
+    syncDone: '✅ Sync complete',
+    syncAdded: (added: number) => `\nNew checkins: ${added}`,
+    syncTotal: (total: number) => `Total in archive: ${total}`,
+    locationRequired: 'Please specify --ll or --near (unless --intent global)',
+    authSuccess: '✅ Authenticated!',
+    tokenSavedAt: '\nYour access token was saved to:',
+    readyToUse: '\nYou can now use the "invoke get-user-checkins" command.',
+    authError: (message: string) => `❌ Authentication error: ${message}`,
+    credentialsHint: [
+      '\nSet FOURSQUARE_CLIENT_ID and FOURSQUARE_CLIENT_SECRET as environment variables,',
+      'or pass them with these options:'
+    ],
+    tokenNotFound: '❌ No token found',
+    runAuthenticate: '\nRun the "invoke authenticate" command to authenticate.',
+    authenticated: '✅ Authenticated',
+    tokenValid: '\nThe token is valid.',
+    tokenFromEnv: 'Source: FOURSQUARE_ACCESS_TOKEN environment variable',
+    tokenSavedPath: (path: string) => `Stored at: ${path}`,
+    tokenInvalid: '⚠️ The token is invalid',
+    runReauthenticate: '\nRun the "invoke authenticate" command to authenticate again.',
+    invalidFormat: (format: string, formats: readonly string[]) => `Unknown output format: ${format} (use one of ${formats.join(' / ')})`,
+    exported: (count: number, path: string) => `📤 Exported ${plural(count, 'checkin')} to ${path}`,
+    unknownTool: (toolName: string | undefined) => `❌ Unknown tool: ${toolName}`,
+    help: [
+      '\nAvailable tools:',
+      '  authenticate        - Authenticate with Foursquare',
+      '  check-auth-status   - Check authentication status',
+      '  get-user-checkins   - Get checkins',
+      '  get-all-checkins    - Get the full checkin history',
+      '  sync-checkins       - Sync checkins to the local archive',
+      '  search-venues       - Search venues',
+      '  export-checkins     - Export checkins as GeoJSON, GPX, KML, CSV, ICS or an HTML map',
+      '  checkin-stats       - Show statistics of the checkin history',
+      '  generate-review     - Create a year-in-review report',
+      '\nOptions for get-user-checkins:',
+      '  --limit <number>    - Number of checkins (default: 50)',
+      '  --after <timestamp> - Checkins after this Unix timestamp',
+      '  --sort <order>      - newestfirst or oldestfirst',
+      '  --json              - Output as JSON',
+      '  --format <format>   - Output as csv / ics etc. (same formats as export-checkins)',
+      '  --archive           - Read from the local archive',
+      '  --category <name>   - Filter by category (including subcategories)',
+      '\nOptions for get-all-checkins:',
+      '  --after <timestamp>  - Checkins after this Unix timestamp',
+      '  --before <timestamp> - Checkins before this Unix timestamp',
+      '  --sort <order>       - newestfirst or oldestfirst',
+      '  --resume             - Resume from an interrupted checkpoint',
+      '  --json               - Output as JSON',
+      '  --archive            - Read from the local archive',
+      '  --category <name>    - Filter by category (including subcategories)',
+      '\nOptions for sync-checkins:',
+      '  --resume             - Resume from an interrupted checkpoint',
+      '\nOptions for search-venues:',
+      '  --ll <lat,lng>       - Center of the search',
+      '  --near <place>       - Place name to search near (instead of --ll)',
+      '  --query <keyword>    - Search keyword',
+      '  --radius <meters>    - Search radius',
+      '  --category-id <ID>   - Category IDs (comma separated)',
+      '  --limit <number>     - Number of venues (default: 10, max: 50)',
+      '  --intent <intent>    - checkin / browse / global / match',
+      '  --category <name>    - Filter by category name (including subcategories)',
+      '  --json               - Output as JSON',
+      '\nOptions for export-checkins:',
+      '  --format <format>    - geojson / gpx / kml / csv / ics / html (default: geojson)',
+      '  --from <YYYY-MM-DD>  - Checkins on or after this date',
+      '  --to <YYYY-MM-DD>    - Checkins up to this date',
+      '  --category <name>    - Filter by category (including subcategories)',
+      '  --api                - Read from the API (default: the local archive, or the API while it is empty)',
+      '  --resume             - Resume from an interrupted checkpoint',
+      '  --output <path>      - Write to a file (default: standard output)',
+      '  --overwrite          - Replace an existing file',
+      '\nOptions for checkin-stats:',
+      '  --from <YYYY-MM-DD>  - Checkins on or after this date',
+      '  --to <YYYY-MM-DD>    - Checkins up to this date',
+      '  --category <name>    - Filter by category (including subcategories)',
+      '  --top <number>       - Rows per ranking (default: 10)',
+      '  --api                - Read from the API (default: the local archive, or the API while it is empty)',
+      '  --resume             - Resume from an interrupted checkpoint',
+      '  --json               - Output as JSON',
+      '\nOptions for generate-review:',
+      '  --year <year>        - Year to review (default: this year)',
+      '  --format <format>    - markdown / html (default: markdown)',
+      '  --top <number>       - Rows per ranking (default: 10)',
+      '  --api                - Read from the API (default: the local archive, or the API while it is empty)',
+      '  --resume             - Resume from an interrupted checkpoint',
+      '  --output <path>      - Write to a file (default: standard output)',
+      '  --overwrite          - Replace an existing file',
+      '\nOptions for authenticate:',
+      '  --client-id <ID>    - Foursquare CLIENT_ID',
+      '  --client-secret <SECRET> - Foursquare CLIENT_SECRET'
+    ]
+  },
+
+  tools: {
+    authenticate: {
+      title: 'Authenticate with Foursquare',
+      description: 'Log in to Foursquare in the browser and obtain an access token',
+      clientId: 'Foursquare CLIENT_ID (can be read from the environment)',
+      clientSecret: 'Foursquare CLIENT_SECRET (can be read from the environment)',
+      success: (tokenPath: string) => `✅ Authenticated!\n\nYour access token was saved to:\n${tokenPath}\n\nYou can now use the "get-user-checkins" tool.`,
+      failure: (message: string) => `❌ Authentication error\n\n${message}\n\nSet FOURSQUARE_CLIENT_ID and FOURSQUARE_CLIENT_SECRET as environment variables or pass them as parameters.`
+    },
+    checkAuthStatus: {
+      title: 'Check authentication status',
+      description: 'Check whether the stored token is valid',
+      tokenNotFound: '❌ No token found\n\nRun the "authenticate" tool to authenticate.',
+      validFromEnv: '✅ Authenticated\n\nThe token is valid.\nSource: FOURSQUARE_ACCESS_TOKEN environment variable',
+      validFromFile: (tokenPath: string) => `✅ Authenticated\n\nThe token is valid.\nStored at: ${tokenPath}`,
+      invalid: '⚠️ The token is invalid\n\nRun the "authenticate" tool to authenticate again.'
+    },
+    getUserCheckins: {
+      title: 'Get recent checkins',
+      description: "Get the authenticated user's recent checkin history"
+    },
+    getAllCheckins: {
+      title: 'Get full checkin history',
+      description: 'Page through the full checkin history (or a date range) by offset and return the part selected by offset and limit. If a rate limit interrupts fetching, continue with resume. Use export-checkins to dump every checkin',
+      offset: 'Number of checkins to skip (pass the previous nextOffset to continue)',
+      page: (from: number, to: number, total: number) => `📄 ${from}-${to} of ${total}`,
+      more: (nextOffset: number) => `Continue with offset: ${nextOffset}. Use export-checkins to write out every checkin at once (with source: "archive", pages are not refetched from the API).`,
+      resumeHint: 'The checkins fetched so far have been saved to a checkpoint. Wait a while and run again with resume: true to continue fetching.'
+    },
+    searchVenues: {
+      title: 'Search venues',
+      description: 'Search venues around a point or place name',
+      categoryId: 'Category IDs (comma separated)',
+      intent: 'Search intent',
+      locationRequired: '❌ Error: Please specify ll or near (unless intent is global)'
+    },
+    getVenueDetails: {
+      title: 'Get venue details',
+      description: 'Fetch venue details, hours, attributes, photos and tips in one report. Returns whatever could be fetched even if some parts fail',
+      venueId: 'Venue ID (as returned in checkins or venue search results)',
+      tipsLimit: 'Number of popular tips to fetch',
+      photosLimit: 'Number of photos to fetch'
+    },
+    createCheckin: {
+      title: 'Post a checkin',
+      description: 'Check in at a venue. Asks for confirmation via elicitation before posting. Use dryRun to only preview what would be posted',
+      venueId: 'Venue ID to check in at',
+      shout: 'Comment to add to the checkin (max 140 characters)',
+      ll: 'Current location (latitude,longitude)',
+      broadcast: 'Visibility and sharing targets',
+      confirm: (preview: string) => `This checkin will be posted. Checkins are public and hard to undo.\n\n${preview}`,
+      done: (checkin: string) => `✅ Checked in\n\n${checkin}`
+    },
+    updateCheckin: {
+      title: 'Update a checkin',
+      description: 'Edit the comment (shout) of a checkin and show the diff. Checkins past their edit deadline (editableUntil) cannot be updated',
+      checkinId: 'Checkin ID to update',
+      shout: 'New comment (max 200 characters)',
+      dryRun: 'Only show the diff without updating',
+      expired: (deadline: string) => `❌ The edit deadline (${deadline}) has passed, so this checkin cannot be updated.`,
+      noShout: '(none)',
+      diffHeader: (venue: string, date: string) => `📍 ${venue} (${date})`,
+      dryRunResult: (diff: string) => `🧪 Dry run (nothing was updated)\n\n${diff}`,
+      done: (diff: string) => `✏️ Checkin updated\n\n${diff}`
+    },
+    deleteCheckin: {
+      title: 'Delete a checkin',
+      description: 'Delete a checkin. Asks for confirmation via elicitation before deleting. Checkins past their edit deadline (editableUntil) cannot be deleted',
+      checkinId: 'Checkin ID to delete',
+      dryRun: 'Only show the target checkin without deleting',
+      expired: (deadline: string) => `❌ The delete deadline (${deadline}) has passed, so this checkin cannot be deleted.`,
+      dryRunResult: (target: string) => `🧪 Dry run (nothing was deleted)\n\n${target}`,
+      confirm: (target: string) => `This checkin will be deleted. This cannot be undone.\n\n${target}`,
+      done: (target: string) => `🗑️ Checkin deleted\n\n${target}`
+    },
+    getUserLists: {
+      title: 'Get lists',
+      description: "Get the authenticated user's Foursquare lists",
+      group: 'Kind of lists to fetch (all when omitted)',
+      notFound: 'No lists found.',
+      header: (index: number) => `--- List #${index} ---`,
+      found: (count: number) => `📋 Fetched ${plural(count, 'list')}`
+    },
+    getList: {
+      title: 'Get list contents',
+      description: 'Get list details and the places saved in it'
+    },
+    createList: {
+      title: 'Create a list',
+      description: 'Create a new Foursquare list',
+      name: 'List name',
+      listDescription: 'List description',
+      done: (list: string) => `✅ List created\n\n${list}`
+    },
+    updateList: {
+      title: 'Update a list',
+      description: 'Update the name and description of a list',
+      name: 'New list name',
+      listDescription: 'New description',
+      done: (list: string) => `✏️ List updated\n\n${list}`
+    },
+    deleteList: {
+      title: 'Delete a list',
+      description: 'Delete a list. Asks for confirmation via elicitation before deleting',
+      confirm: (target: string) => `This list will be deleted. This cannot be undone.\n\n${target}`,
+      done: (target: string) => `🗑️ List deleted\n\n${target}`
+    },
+    addListItem: {
+      title: 'Add a place to a list',
+      description: 'Add a venue to a list',
+      venueId: 'Venue ID to add',
+      text: 'Note for the place (saved as a tip)',
+      done: (venueName: string) => `✅ Added "${venueName}" to the list`
+    },
+    deleteListItem: {
+      title: 'Remove a place from a list',
+      description: 'Remove a venue from a list',
+      venueId: 'Venue ID to remove',
+      done: (venueId: string) => `🗑️ Removed venue ${venueId} from the list`
+    },
+    suggestListVenues: {
+      title: 'Get suggested places for a list',
+      description: 'Get venues recommended for adding to a list, based on its contents',
+      notFound: 'No suggested venues found.'
+    },
+    getUserTips: {
+      title: 'Get my tips',
+      description: 'Get tips posted by the authenticated user',
+      offset: 'Offset to start from',
+      venueId: 'Only tips for this venue',
+      categoryId: 'Only tips for venues in this category'
+    },
+    getVenueTips: {
+      title: 'Get venue tips',
+      description: 'Get tips posted for a venue',
+      sort: 'Sort order (popular: most popular first, recent: newest first)',
+      limit: 'Number of results'
+    },
+    getTip: {
+      title: 'Get tip details',
+      description: 'Get the details of a tip'
+    },
+    addTip: {
+      title: 'Post a tip',
+      description: 'Post a tip for a venue. Asks for confirmation via elicitation before posting. Use dryRun to only preview what would be posted',
+      venueId: 'Venue ID to post the tip for',
+      text: 'Tip text (max 200 characters)',
+      confirm: (preview: string) => `This tip will be posted. Tips are public.\n\n${preview}`,
+      done: (tip: string) => `✅ Tip posted\n\n${tip}`
+    },
+    voteTip: {
+      title: 'Vote on a tip',
+      description: 'Upvote or downvote a tip. Asks for confirmation via elicitation before voting',
+      upvote: 'true: upvote, false: downvote',
+      upvoteLabel: '👍 an upvote',
+      downvoteLabel: '👎 a downvote',
+      confirm: (label: string, tip: string) => `This tip will get ${label}.\n\n${tip}`,
+      done: (label: string, tip: string) => `✅ Gave ${label}\n\n${tip}`
+    },
+    deleteTip: {
+      title: 'Delete a tip',
+      description: 'Delete a tip you posted. Asks for confirmation via elicitation before deleting',
+      confirm: (target: string) => `This tip will be deleted. This cannot be undone.\n\n${target}`,
+      done: (target: string) => `🗑️ Tip deleted\n\n${target}`
+    },
+    flagTip: {
+      title: 'Report a tip',
+      description: 'Report a problematic tip. Asks for confirmation via elicitation before reporting',
+      problem: 'Kind of problem',
+      confirm: (problem: string, target: string) => `This tip will be reported as "${problem}".\n\n${target}`,
+      done: (target: string) => `🚩 Tip reported\n\n${target}`
+    },
+    getUserTastes: {
+      title: 'Get my tastes',
+      description: "Get the authenticated user's tastes (preferences)",
+      found: (count: number) => `🍽️ ${plural(count, 'taste')} on your profile`
+    },
+    addTastes: {
+      title: 'Add tastes',
+      description: 'Add tastes to your profile',
+      tasteIds: 'Array of taste IDs to add',
+      done: (count: number) => `✅ Added ${plural(count, 'taste')}`
+    },
+    deleteTaste: {
+      title: 'Delete a taste',
+      description: 'Remove a taste from your profile',
+      tasteId: 'Taste ID to remove',
+      done: (tasteId: string) => `🗑️ Removed taste ${tasteId}`
+    },
+    autocompleteTastes: {
+      title: 'Search tastes',
+      description: 'Search tastes by keyword to get their IDs'
+    },
+    getTasteSuggestions: {
+      title: 'Get suggested tastes',
+      description: 'Get tastes suggested by Foursquare'
+    },
+    suggestTastesFromCheckins: {
+      title: 'Suggest tastes from checkin history',
+      description: 'Count the categories of venues you visit often and suggest tastes you have not added yet',
+      limit: 'Number of checkins to count (max 100)',
+      topCategories: 'Number of categories to find candidates for',
+      notFound: 'No checkins with categories found.',
+      noCandidates: '(no candidates you have not added)',
+      section: (name: string, count: number, body: string) => `🏷️ ${name} (${plural(count, 'time')})\n${body}`,
+      intro: (count: number) => `🍽️ Categories you visit often in your last ${count} checkins, with tastes you have not added yet.\nPass the IDs to the add-tastes tool to add them.`
+    },
+    recommendVenues: {
+      title: 'Get recommended venues',
+      description: 'Get personalized venue recommendations and mark whether you have visited them, based on your checkin history. Uses the location of your latest checkin when no location is given',
+      query: 'Search keyword (ignored when section is given)',
+      section: 'Section',
+      price: 'Price tiers (array of 1–4, 1 is cheapest)',
+      openNow: 'Only venues open now',
+      notFound: 'No recommended venues found.'
+    },
+    autocompleteVenues: {
+      title: 'Find venues by name',
+      description: 'Get venue IDs and coordinates from a vague name such as "that ramen place in Shibuya"',
+      query: 'Venue name (partial input is fine)',
+      ll: 'Point to prefer candidates around (latitude,longitude)',
+      near: 'Place name to prefer candidates around',
+      radius: 'Range to prefer candidates within (meters, max 100000)'
+    },
+    autocompletePlaces: {
+      title: 'Find places by name',
+      description: 'Get place candidates with coordinates from a place name (partial input is fine)',
+      query: 'Place name (partial input is fine)',
+      notFound: 'No places found.'
+    },
+    trendingVenues: {
+      title: 'Get trending venues',
+      description: 'Get venues that are busy nearby right now. Uses the location of your latest checkin when no location is given',
+      source: 'Where to read the latest checkin from when no location is given',
+      notFound: 'No trending venues found.'
+    },
+    relatedVenues: {
+      title: 'Get similar venues',
+      description: 'Get venues related to a venue and add how many times you visited each, based on your checkin history. While the archive is empty, the history is read from the API',
+      venueId: 'Venue ID to start from',
+      notFound: 'No related venues found.'
+    },
+    listCategories: {
+      title: 'List categories',
+      description: 'Show the venue category hierarchy. The hierarchy is cached in the config directory and refreshed every 30 days',
+      query: 'Search by exact category name (case-insensitive; subcategories of matches are shown too)',
+      depth: 'Depth of the hierarchy to show',
+      refresh: 'Fetch again from the API instead of using the cache',
+      notFound: 'No categories found.',
+      found: (count: number) => `🏷️ ${count} ${count === 1 ? 'category' : 'categories'}`,
+      foundWithDate: (count: number, date: string) => `🏷️ ${count} ${count === 1 ? 'category' : 'categories'} (fetched ${date})`
+    },
+    syncCheckins: {
+      title: 'Sync checkins locally',
+      description: 'Fetch only the checkins newer than the local archive from the API and save them. The first run fetches the full history. Checkins deleted on Foursquare are not removed from the archive',
+      done: (added: number, total: number) => `✅ Sync complete\n\nNew checkins: ${added}\nTotal in archive: ${total}`,
+      resumeHint: 'The checkins fetched so far have been saved to a checkpoint. Wait a while and run again with resume: true to continue syncing.'
+    },
+    checkinStats: {
+      title: 'Checkin statistics',
+      description: 'Summarize the checkin history per venue, category, city, weekday and hour, with first/last visit dates, checkin streaks and month-over-month trends. Weekdays and hours use local time',
+      top: 'Number of rows to show in each ranking',
+      notFound: 'No checkins in this period.',
+      summary: (total: number, first: string, last: string) => `📊 ${plural(total, 'checkin')} (${first} – ${last})`,
+      longestStreak: (days: number, start: string, end: string) => `🔥 Longest streak: ${plural(days, 'day')} (${start} – ${end})`,
+      latestStreak: (days: number, start: string, end: string) => `📆 Latest streak: ${plural(days, 'day')} (${start} – ${end})`,
+      venues: '🏠 By venue',
+      categories: '🏷️ By category',
+      cities: '🏙️ By city',
+      weekdays: '📅 By weekday',
+      hours: '🕒 By hour',
+      months: '📈 Month over month',
+      count: 'Count',
+      venue: 'Venue',
+      firstVisit: 'First',
+      lastVisit: 'Last',
+      category: 'Category',
+      city: 'City',
+      weekday: 'Weekday',
+      hour: 'Hour',
+      hourLabel: (hour: number) => `${String(hour).padStart(2, '0')}:00`,
+      month: 'Month',
+      change: 'Change',
+      resumeHint: 'The checkins fetched so far have been saved to a checkpoint. Wait a while and run again with resume: true to continue fetching.'
+    },
+    searchCheckinsByLocation: {
+      title: 'Search checkins by location',
+      description: 'Search the checkin history by location: within a radius of a point (radius), inside a bounding box (bbox), or the previously visited venues nearest to a point (nearest), sorted by haversine distance',
+      mode: 'Search mode (radius: within a radius, bbox: inside a bounding box, nearest: nearest visited venues)',
+      ll: 'Reference point (lat,lng). For radius and nearest, the location of the latest checkin is used if omitted',
+      radius: 'Search radius in meters (radius only)',
+      bbox: 'Bounding box (swLat,swLng,neLat,neLng; bbox only)',
+      limit: 'Number of results to return',
+      bboxRequired: '❌ Error: specify bbox when mode is bbox',
+      withinRadius: (origin: string, radius: string, count: number) => `📍 ${plural(count, 'checkin')} within ${radius} of ${origin}`,
+      inBoundingBox: (count: number) => `🗺️ ${plural(count, 'checkin')} inside the bounding box`,
+      nearest: (origin: string, count: number) => `📍 ${plural(count, 'visited venue')} near ${origin}`,
+      distance: (distance: string) => `📏 ${distance}`,
+      visitCount: (count: number) => `🔁 Visits: ${count}`,
+      resumeHint: 'The checkins fetched so far have been saved to a checkpoint. Wait a while and run again with resume: true to continue fetching.'
+    },
+    searchMyCheckins: {
+      title: 'Full-text search my checkins',
+      description: 'Full-text search the shouts, venue names, addresses and category names in the checkin history, returning the most relevant checkins with the matches highlighted. Japanese text is matched by character bigrams, so no word boundaries are needed',
+      query: 'Search keywords (checkins must contain every word)',
+      limit: 'Number of results to return',
+      found: (query: string, count: number) => `🔎 ${plural(count, 'checkin')} matching "${query}"`,
+      fields: {
+        venue: 'Venue',
+        category: 'Category',
+        shout: 'Shout',
+        address: 'Address'
+      },
+      highlight: (field: string, snippet: string) => `🔎 ${field}: ${snippet}`,
+      resumeHint: 'The checkins fetched so far have been saved to a checkpoint. Wait a while and run again with resume: true to continue fetching.'
+    },
+    exportCheckins: {
+      title: 'Export checkins',
+      description: 'Export the checkin history as GeoJSON (FeatureCollection), GPX (waypoints and a track), KML, CSV, ICS (calendar) or HTML (a map that works offline), including venue name, category, time and shout',
+      format: 'Output format',
+      path: 'File path to write to (returns the content directly if omitted)',
+      written: (count: number, path: string) => `📤 Exported ${plural(count, 'checkin')} to ${path}`,
+      resumeHint: 'The checkins fetched so far have been saved to a checkpoint. Wait a while and run again with resume: true to continue fetching.',
+      map: {
+        title: 'Checkin map',
+        summary: (count: number) => `📍 ${plural(count, 'checkin')}`,
+        markers: 'Markers',
+        heatmap: 'Heatmap',
+        tiles: 'Background map (OpenStreetMap, online only)',
+        fit: 'Fit'
+      }
+    },
+    generateReview: {
+      title: 'Generate a year in review',
+      description: 'Create a year-in-review report from a year of checkins as Markdown or a self-contained HTML file: totals, top venues and categories, new places discovered, cities and countries visited, busiest months and a photo strip. Earlier history is also fetched to tell which places were new',
+      year: 'Year to review (defaults to this year)',
+      format: 'Output format',
+      top: 'Number of rows to show in each ranking',
+      path: 'File path to write to (returns the content directly if omitted)',
+      notFound: (year: number) => `No checkins in ${year}.`,
+      written: (year: number, path: string) => `📝 Wrote the ${year} review to ${path}`,
+      heading: (year: number) => `📅 ${year} in review`,
+      summary: (total: number, days: number, venues: number) => `📊 ${plural(total, 'checkin')} on ${plural(days, 'day')} at ${plural(venues, 'venue')}`,
+      highlights: (newPlaces: number, cities: number, countries: number) => `🆕 ${plural(newPlaces, 'new place')} · 🏙️ ${cities} ${cities === 1 ? 'city' : 'cities'} · 🌏 ${countries} ${countries === 1 ? 'country' : 'countries'}`,
+      topVenues: '🏠 Top venues',
+      topCategories: '🏷️ Top categories',
+      newPlaces: (count: number) => `🆕 New places discovered (${count})`,
+      cities: (count: number) => `🏙️ Cities visited (${count})`,
+      countries: (count: number) => `🌏 Countries visited (${count})`,
+      country: 'Country',
+      busiestMonths: '📈 Busiest months',
+      busiest: (months: string[]) => `🔥 ${months.join(', ')}`,
+      monthLabel: (month: number) => ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][month - 1] ?? String(month),
+      monthCount: (month: string, count: number) => `${month} (${count})`,
+      photos: '📸 Photo strip',
+      more: (count: number) => `and ${count} more`,
+      resumeHint: 'The checkins fetched so far have been saved to a checkpoint. Wait a while and run again with resume: true to continue fetching.'
+    }
+  },
+
+  resources: {
+    recentCheckins: {
+      title: 'Recent checkins',
+      description: "The authenticated user's 20 most recent checkins (from the local archive when the API is unavailable)",
+      fromArchive: '⚠️ The API was unavailable, so these come from the local archive (checkins since the last sync are missing).'
+    },
+    checkin: {
+      title: 'Checkin',
+      description: 'Checkin details (fetched from the API when not in the local archive)'
+    },
+    venue: {
+      title: 'Venue',
+      description: 'Venue details'
+    }
+  },
+
+  prompts: {
+    weeklyTravelDiary: {
+      title: 'Weekly travel diary',
+      description: "Write a travel diary from a week's checkins",
+      weekStart: 'First day of the week (YYYY-MM-DD, the 7 days up to today when omitted)',
+      instruction: (from: string, to: string) => `Below are my Foursquare checkins for the week of ${from} to ${to}. ` +
+        'Follow the places, travel and meals in order and write them up as a travel diary.'
+    },
+    restaurantRevisitSuggestions: {
+      title: 'Restaurants to revisit',
+      description: 'Suggest places worth revisiting based on past checkins',
+      category: 'Filter by category name (default: Food)',
+      since: 'Only checkins since this date (YYYY-MM-DD, one year ago when omitted)',
+      visits: (name: string, count: number, lastVisit: string, categories: string) =>
+        `- ${name} (${plural(count, 'time')}, last visit: ${lastVisit})${categories ? ` [${categories}]` : ''}`,
+      instruction: (from: string) => `Below are the places I have visited since ${from} and how many times. ` +
+        'Considering the visit counts and how long it has been since my last visit, suggest about 5 places I would want to go back to, with reasons.'
+    },
+    tripSummary: {
+      title: 'Trip summary',
+      description: 'Summarize a trip from the checkins in a date range',
+      from: 'First day of the trip (YYYY-MM-DD)',
+      to: 'Last day of the trip (YYYY-MM-DD)',
+      instruction: (from: string, to: string) => `Below are my Foursquare checkins during a trip from ${from} to ${to}. ` +
+        'Summarize the itinerary for each day, the main places visited, what I ate and memorable moments.'
+    }
+  }
+};
@@ -0,0 +1,635 @@
+/**
+ * 日本語のメッセージカタログ
+ * 他の言語のカタログはこの型（Messages）に合わせて定義する
+ */
+export const ja = {
+  // 日時の表示形式（dayjs）
+  dateTimeFormat: 'YYYY/MM/DD HH:mm',
+
+  common: {
+    error: (message: string) => `❌ エラー: ${message}`,
+    authenticateHint: '「authenticate」ツールで認証を行ってください。',
+    rateLimited: (message: string) => `⏸️ レート制限により中断しました: ${message}`,
+    checkpointSaved: '取得済みの内容をチェックポイントに保存しました。',
+    fileExists: (path: string) => `❌ ファイルが既に存在します: ${path}\n上書きする場合は overwrite（CLIでは --overwrite）を指定してください。`,
+    progress: (fetched: number, total?: number) => total === undefined ? `${fetched}件を取得済み` : `${fetched}/${total}件を取得済み`,
+    llFormat: '緯度,経度 の形式で指定してください',
+    dateFormat: 'YYYY-MM-DD形式で指定してください',
+    bboxFormat: '南西の緯度,南西の経度,北東の緯度,北東の経度 の形式で指定してください',
+    llRange: '緯度は-90〜90、経度は-180〜180の範囲で指定してください',
+    categoryTaxonomyUnavailable: (category: string) => `⚠️ カテゴリー階層を取得できないため、"${category}" はカテゴリー名の完全一致のみで絞り込みます（サブカテゴリーは含まれません）`,
+    bboxRange: '緯度は-90〜90、経度は-180〜180の範囲で、南西の緯度は北東の緯度以下にしてください',
+    noHistoryForLocation: '❌ エラー: チェックイン履歴が無いため、ll または near を指定してください',
+    dryRunNotPosted: (preview: string) => `🧪 ドライラン（投稿していません）\n\n${preview}`,
+    confirmTitle: '実行する',
+    confirmDescription: 'チェックを入れて送信すると実行します',
+    elicitationUnsupported: '❌ このクライアントはelicitation（実行確認）に対応していないため、実行できません。\n\ndryRunで内容を確認したうえで、elicitation対応のクライアントから実行してください。',
+    cancelled: '🚫 キャンセルしました。'
+  },
+
+  // 複数のツールで共通の引数の説明
+  params: {
+    limit: (max: number) => `取得件数（最大${max}）`,
+    afterTimestamp: 'このUnixタイムスタンプ以降のチェックインのみ取得',
+    beforeTimestamp: 'このUnixタイムスタンプ以前のチェックインのみ取得',
+    sort: 'ソート順',
+    resume: 'レート制限で中断したチェックポイントから再開する',
+    overwrite: 'pathのファイルが既に存在する場合に上書きする',
+    source: '取得元（archiveはsync-checkinsで保存したローカルアーカイブ）',
+    historySource: '照合するチェックイン履歴の取得元（archiveはsync-checkinsで保存したローカルアーカイブ。apiは履歴全体をAPIから取得するため多くのリクエストを使う。アーカイブが空の場合はAPIから取得する）',
+    category: 'カテゴリー名（完全一致・大文字小文字を区別しない）で絞り込み（サブカテゴリーも含む。例: Food）',
+    ll: '検索の中心地点（緯度,経度）',
+    near: '検索する地名（llの代わりに指定）',
+    radius: '検索半径（メートル）',
+    query: '検索キーワード',
+    city: '都市名で絞り込み',
+    listId: 'リストID',
+    tipId: 'TipID',
+    venueId: 'ベニューID',
+    dryRunPost: '投稿せずに送信内容だけを表示する',
+    from: 'この日以降のチェックインのみ対象（YYYY-MM-DD）',
+    to: 'この日までのチェックインのみ対象（YYYY-MM-DD、当日を含む）'
+  },
+
+  // FoursquareAPIの表示用フォーマット
+  format: {
+    bothTimes: (local: string, home: string, timezone: string) => `${local}（現地） / ${home}（${timezone}）`,
+    noDeadline: '期限なし',
+    photos: (count: number) => `📸 写真 (${count}枚)`,
+    listSpots: (count: number, summary: string) => `📍 ${count}件のスポット${summary}`,
+    spotHeader: (index: number) => `--- スポット #${index} ---`,
+    dayNames: ['月', '火', '水', '木', '金', '土', '日'],
+    dayRange: (first: string, last: string) => `${first}〜${last}`,
+    daySeparator: '・',
+    time: (hhmm: string, nextDay: boolean) => `${nextDay ? '翌' : ''}${hhmm}`,
+    rating: (rating: number) => `⭐ 評価: ${rating}/10`,
+    price: (price: string) => `💴 価格帯: ${price}`,
+    hours: '🕒 営業時間:',
+    attributes: 'ℹ️ 属性:',
+    popularTips: '📝 人気のTips:',
+    unavailable: '⚠️ 取得できなかった情報:'
+  },
+
+  api: {
+    tokenNotFound: 'トークンが見つかりません。先に認証を実行してください。'
+  },
+
+  auth: {
+    credentialsRequired: 'CLIENT_IDとCLIENT_SECRETが必要です。環境変数またはパラメータで指定してください。',
+    errorTitle: '認証エラー',
+    errorPage: (error: string) => `Foursquare認証でエラーが発生しました: ${error}`,
+    closeAndRetry: 'このウィンドウを閉じて、再度お試しください。',
+    authError: (error: string) => `認証エラー: ${error}`,
+    codeNotFound: '認証コードが見つかりません',
+    tokenError: (error: string) => `トークン取得エラー: ${error}`,
+    noAccessToken: 'アクセストークンが取得できませんでした',
+    successTitle: '認証成功',
+    successHeading: '✅ 認証成功！',
+    successCompleted: 'Foursquareの認証が完了しました。',
+    successSaved: 'トークンは安全に保存されました。',
+    successClose: 'このウィンドウを閉じて、MCPツールをご利用ください。',
+    genericErrorTitle: 'エラー',
+    serverTitle: 'Foursquare認証',
+    serverHeading: 'Foursquare認証サーバー',
+    waiting: '認証待機中...',
+    serverStarted: (url: string) => `認証サーバーを起動しました: ${url}`,
+    openingBrowser: 'ブラウザで認証ページを開いています...',
+    openBrowserFailed: 'ブラウザを自動的に開けませんでした。以下のURLを手動で開いてください:',
+    portInUse: (port: number) => `ポート${port}は既に使用中です。別のプロセスを終了してから再度お試しください。`,
+    timeout: '認証タイムアウト: 5分以内に認証を完了してください'
+  },
+
+  checkins: {
+    notFound: 'チェックインが見つかりませんでした。',
+    found: (count: number) => `🎯 ${count}件のチェックインを取得しました`,
+    header: (index: number) => `--- チェックイン #${index} ---`
+  },
+
+  venues: {
+    notFound: 'ベニューが見つかりませんでした。',
+    found: (count: number) => `🔍 ${count}件のベニューが見つかりました`,
+    foundWithVisits: (count: number, visited: number) => `🔍 ${count}件のベニュー（うち訪問済み${visited}件）`,
+    header: (index: number) => `--- ベニュー #${index} ---`,
+    visited: (count: number, lastVisit: string) => `✅ 訪問済み（${count}回、最終訪問: ${lastVisit}）`,
+    notVisited: '🆕 未訪問',
+    placeHeader: (index: number) => `--- 候補 #${index} ---`
+  },
+
+  tips: {
+    notFound: 'Tipsが見つかりませんでした。',
+    found: (count: number) => `📝 ${count}件のTipsを取得しました`,
+    header: (index: number) => `--- Tip #${index} ---`
+  },
+
+  tastes: {
+    notFound: 'テイストが見つかりませんでした。'
+  },
+
+  cli: {
+    authHint: [
+      '\n認証が必要な場合は、MCPサーバーとして起動してauthenticateツールを使用するか、',
+      '環境変数 FOURSQUARE_ACCESS_TOKEN を設定してください。'
+    ],
+    progress: (fetched: number, total?: number) => total === undefined ? `⏳ ${fetched}件を取得済み` : `⏳ ${fetched}/${total}件を取得済み`,
+    resumeFetch: '時間をおいて --resume オプション付きで再実行すると続きから取得します。',
+    resumeSync: '時間をおいて --resume オプション付きで再実行すると続きから同期します。',
+    syncDone: '✅ 同期完了',
+    syncAdded: (added: number) => `\n新規チェックイン: ${added}件`,
+    syncTotal: (total: number) => `アーカイブ内の合計: ${total}件`,
+    locationRequired: '--ll または --near を指定してください（--intent global の場合を除く）',
+    authSuccess: '✅ 認証成功！',
+    tokenSavedAt: '\nアクセストークンが以下の場所に保存されました：',
+    readyToUse: '\nこれで「invoke get-user-checkins」コマンドが使用可能になりました。',
+    authError: (message: string) => `❌ 認証エラー: ${message}`,
+    credentialsHint: [
+      '\n環境変数にFOURSQUARE_CLIENT_IDとFOURSQUARE_CLIENT_SECRETを設定するか、',
+      '以下のオプションで指定してください：'
+    ],
+    tokenNotFound: '❌ トークンが見つかりません',
+    runAuthenticate: '\n「invoke authenticate」コマンドを実行して認証を行ってください。',
+    authenticated: '✅ 認証済み',
+    tokenValid: '\nトークンは有効です。',
+    tokenFromEnv: '取得元: 環境変数 FOURSQUARE_ACCESS_TOKEN',
+    tokenSavedPath: (path: string) => `保存場所: ${path}`,
+    tokenInvalid: '⚠️ トークンが無効です',
+    runReauthenticate: '\n「invoke authenticate」コマンドを実行して再認証してください。',
+    invalidFormat: (format: string, formats: readonly string[]) => `不明な出力形式です: ${format}（${formats.join(' / ')} のいずれかを指定してください）`,
+    exported: (count: number, path: string) => `📤 ${count}件のチェックインを書き出しました: ${path}`,
+    unknownTool: (toolName: string | undefined) => `❌ 不明なツール: ${toolName}`,
+    // 不明なツールが指定された際のヘルプ
+    help: [
+      '\n使用可能なツール:',
+      '  authenticate        - Foursquare認証',
+      '  check-auth-status   - 認証状態を確認',
+      '  get-user-checkins   - チェックインを取得',
+      '  get-all-checkins    - 全チェックイン履歴を取得',
+      '  sync-checkins       - チェックインをローカルアーカイブに同期',
+      '  search-venues       - ベニューを検索',
+      '  export-checkins     - チェックインをGeoJSON・GPX・KML・CSV・ICS・HTMLの地図で書き出し',
+      '  checkin-stats       - チェックイン履歴の統計を表示',
+      '  generate-review     - 1年分のふりかえりレポートを作成',
+      '\nget-user-checkinsのオプション:',
+      '  --limit <数値>      - 取得件数（デフォルト: 50）',
+      '  --after <timestamp> - このUnixタイムスタンプ以降のチェックイン',
+      '  --sort <順序>       - newestfirst または oldestfirst',
+      '  --json              - JSON形式で出力',
+      '  --format <形式>     - csv / ics などの形式で出力（export-checkinsと同じ形式）',
+      '  --archive           - ローカルアーカイブから取得',
+      '  --category <名前>   - カテゴリーで絞り込み（サブカテゴリーも含む）',
+      '\nget-all-checkinsのオプション:',
+      '  --after <timestamp>  - このUnixタイムスタンプ以降のチェックイン',
+      '  --before <timestamp> - このUnixタイムスタンプ以前のチェックイン',
+      '  --sort <順序>        - newestfirst または oldestfirst',
+      '  --resume             - 中断したチェックポイントから再開',
+      '  --json               - JSON形式で出力',
+      '  --archive            - ローカルアーカイブから取得',
+      '  --category <名前>    - カテゴリーで絞り込み（サブカテゴリーも含む）',
+      '\nsync-checkinsのオプション:',
+      '  --resume             - 中断したチェックポイントから再開',
+      '\nsearch-venuesのオプション:',
+      '  --ll <緯度,経度>     - 検索の中心地点',
+      '  --near <地名>        - 検索する地名（--llの代わり）',
+      '  --query <キーワード> - 検索キーワード',
+      '  --radius <メートル>  - 検索半径',
+      '  --category-id <ID>   - カテゴリーID（カンマ区切り）',
+      '  --limit <数値>       - 取得件数（デフォルト: 10、最大: 50）',
+      '  --intent <種別>      - checkin / browse / global / match',
+      '  --category <名前>    - カテゴリー名で絞り込み（サブカテゴリーも含む）',
+      '  --json               - JSON形式で出力',
+      '\nexport-checkinsのオプション:',
+      '  --format <形式>      - geojson / gpx / kml / csv / ics / html（デフォルト: geojson）',
+      '  --from <YYYY-MM-DD>  - この日以降のチェックイン',
+      '  --to <YYYY-MM-DD>    - この日までのチェックイン',
+      '  --category <名前>    - カテゴリーで絞り込み（サブカテゴリーも含む）',
+      '  --api                - APIから取得（デフォルトはローカルアーカイブ。空の場合はAPI）',
+      '  --resume             - 中断したチェックポイントから再開',
+      '  --output <パス>      - ファイルに書き込み（省略時は標準出力）',
+      '  --overwrite          - 既存のファイルを上書き',
+      '\ncheckin-statsのオプション:',
+      '  --from <YYYY-MM-DD>  - この日以降のチェックイン',
+      '  --to <YYYY-MM-DD>    - この日までのチェックイン',
+      '  --category <名前>    - カテゴリーで絞り込み（サブカテゴリーも含む）',
+      '  --top <数値>         - 各ランキングの表示件数（デフォルト: 10）',
+      '  --api                - APIから取得（デフォルトはローカルアーカイブ。空の場合はAPI）',
+      '  --resume             - 中断したチェックポイントから再開',
+      '  --json               - JSON形式で出力',
+      '\ngenerate-reviewのオプション:',
+      '  --year <年>          - ふりかえる年（デフォルト: 今年）',
+      '  --format <形式>      - markdown / html（デフォルト: markdown）',
+      '  --top <数値>         - 各ランキングの表示件数（デフォルト: 10）',
+      '  --api                - APIから取得（デフォルトはローカルアーカイブ。空の場合はAPI）',
+      '  --resume             - 中断したチェックポイントから再開',
+      '  --output <パス>      - ファイルに書き込み（省略時は標準出力）',
+      '  --overwrite          - 既存のファイルを上書き',
+      '\nauthenticateのオプション:',
+      '  --client-id <ID>    - Foursquare CLIENT_ID',
+      '  --client-secret <SECRET> - Foursquare CLIENT_SECRET'
+    ]
+  },
+
+  tools: {
+    authenticate: {
+      title: 'Foursquare認証',
+      description: 'ブラウザでFoursquareにログインしてアクセストークンを取得します',
+      clientId: 'Foursquare CLIENT_ID（環境変数から読み込み可）',
+      clientSecret: 'Foursquare CLIENT_SECRET（環境変数から読み込み可）',
+      success: (tokenPath: string) => `✅ 認証成功！\n\nアクセストークンが以下の場所に保存されました：\n${tokenPath}\n\nこれで「get-user-checkins」ツールが使用可能になりました。`,
+      failure: (message: string) => `❌ 認証エラー\n\n${message}\n\n環境変数にFOURSQUARE_CLIENT_IDとFOURSQUARE_CLIENT_SECRETを設定するか、パラメータで指定してください。`
+    },
+    checkAuthStatus: {
+      title: '認証状態を確認',
+      description: '保存されたトークンの有効性を確認します',
+      tokenNotFound: '❌ トークンが見つかりません\n\n「authenticate」ツールを実行して認証を行ってください。',
+      validFromEnv: '✅ 認証済み\n\nトークンは有効です。\n取得元: 環境変数 FOURSQUARE_ACCESS_TOKEN',
+      validFromFile: (tokenPath: string) => `✅ 認証済み\n\nトークンは有効です。\n保存場所: ${tokenPath}`,
+      invalid: '⚠️ トークンが無効です\n\n「authenticate」ツールを実行して再認証してください。'
+    },
+    getUserCheckins: {
+      title: '最新チェックインを取得',
+      description: '認証済みユーザーの最新チェックイン履歴を取得します'
+    },
+    getAllCheckins: {
+      title: '全チェックイン履歴を取得',
+      description: 'offsetでページングしながら全チェックイン履歴（または指定期間分）を取得し、そのうちoffset・limitで指定した範囲を返します。レート制限で中断した場合はresumeで続きから再開できます。全件を書き出す場合はexport-checkinsを使ってください',
+      offset: '先頭から読み飛ばす件数（続きは前回のnextOffsetを指定）',
+      page: (from: number, to: number, total: number) => `📄 全${total}件中 ${from}〜${to}件目`,
+      more: (nextOffset: number) => `続きは offset: ${nextOffset} で取得できます。全件をまとめて書き出す場合は export-checkins を使ってください（source: "archive" ならページごとにAPIから取り直しません）。`,
+      resumeHint: '取得済みの内容をチェックポイントに保存しました。時間をおいて resume: true で再実行すると続きから取得します。'
+    },
+    searchVenues: {
+      title: 'ベニューを検索',
+      description: '指定した地点・地名の周辺でベニューを検索します',
+      categoryId: 'カテゴリーID（カンマ区切りで複数指定可）',
+      intent: '検索の意図',
+      locationRequired: '❌ エラー: ll または near を指定してください（intent が global の場合を除く）'
+    },
+    getVenueDetails: {
+      title: 'ベニューの詳細を取得',
+      description: 'ベニューの詳細・営業時間・属性・写真・Tipsをまとめて取得し、1つのレポートにします。一部の取得に失敗しても残りの情報を返します',
+      venueId: 'ベニューID（チェックインやベニュー検索の結果に含まれるID）',
+      tipsLimit: '取得する人気Tipsの件数',
+      photosLimit: '取得する写真の枚数'
+    },
+    createCheckin: {
+      title: 'チェックインを投稿',
+      description: '指定したベニューにチェックインします。投稿前にelicitationで確認を求めます。dryRunで投稿内容だけを確認できます',
+      venueId: 'チェックインするベニューID',
+      shout: 'チェックインに添えるコメント（最大140文字）',
+      ll: '現在地（緯度,経度）',
+      broadcast: '公開範囲・共有先',
+      confirm: (preview: string) => `以下の内容でチェックインを投稿します。チェックインは公開され、取り消しが難しい操作です。\n\n${preview}`,
+      done: (checkin: string) => `✅ チェックインしました\n\n${checkin}`
+    },
+    updateCheckin: {
+      title: 'チェックインを更新',
+      description: 'チェックインのコメント（shout）を修正し、変更前後の差分を表示します。編集可能期限（editableUntil）を過ぎたチェックインは更新できません',
+      checkinId: '更新するチェックインID',
+      shout: '新しいコメント（最大200文字）',
+      dryRun: '更新せずに差分だけを表示する',
+      expired: (deadline: string) => `❌ 編集可能期限（${deadline}）を過ぎているため更新できません。`,
+      noShout: '（なし）',
+      diffHeader: (venue: string, date: string) => `📍 ${venue}（${date}）`,
+      dryRunResult: (diff: string) => `🧪 ドライラン（更新していません）\n\n${diff}`,
+      done: (diff: string) => `✏️ チェックインを更新しました\n\n${diff}`
+    },
+    deleteCheckin: {
+      title: 'チェックインを削除',
+      description: 'チェックインを削除します。削除前にelicitationで確認を求めます。編集可能期限（editableUntil）を過ぎたチェックインは削除できません',
+      checkinId: '削除するチェックインID',
+      dryRun: '削除せずに対象のチェックインだけを表示する',
+      expired: (deadline: string) => `❌ 削除可能期限（${deadline}）を過ぎているため削除できません。`,
+      dryRunResult: (target: string) => `🧪 ドライラン（削除していません）\n\n${target}`,
+      confirm: (target: string) => `以下のチェックインを削除します。この操作は取り消せません。\n\n${target}`,
+      done: (target: string) => `🗑️ チェックインを削除しました\n\n${target}`
+    },
+    getUserLists: {
+      title: 'リスト一覧を取得',
+      description: '認証済みユーザーのFoursquareリスト一覧を取得します',
+      group: '取得するリストの種類（省略時はすべて）',
+      notFound: 'リストが見つかりませんでした。',
+      header: (index: number) => `--- リスト #${index} ---`,
+      found: (count: number) => `📋 ${count}件のリストを取得しました`
+    },
+    getList: {
+      title: 'リストの内容を取得',
+      description: 'リストの詳細と登録されているスポットを取得します'
+    },
+    createList: {
+      title: 'リストを作成',
+      description: '新しいFoursquareリストを作成します',
+      name: 'リスト名',
+      listDescription: 'リストの説明',
+      done: (list: string) => `✅ リストを作成しました\n\n${list}`
+    },
+    updateList: {
+      title: 'リストを更新',
+      description: 'リストの名前・説明を更新します',
+      name: '新しいリスト名',
+      listDescription: '新しい説明',
+      done: (list: string) => `✏️ リストを更新しました\n\n${list}`
+    },
+    deleteList: {
+      title: 'リストを削除',
+      description: 'リストを削除します。削除前にelicitationで確認を求めます',
+      confirm: (target: string) => `以下のリストを削除します。この操作は取り消せません。\n\n${target}`,
+      done: (target: string) => `🗑️ リストを削除しました\n\n${target}`
+    },
+    addListItem: {
+      title: 'リストにスポットを追加',
+      description: 'リストにベニューを追加します',
+      venueId: '追加するベニューID',
+      text: 'スポットに添えるメモ（Tipとして保存されます）',
+      done: (venueName: string) => `✅ リストに「${venueName}」を追加しました`
+    },
+    deleteListItem: {
+      title: 'リストからスポットを削除',
+      description: 'リストからベニューを削除します',
+      venueId: '削除するベニューID',
+      done: (venueId: string) => `🗑️ リストからベニュー ${venueId} を削除しました`
+    },
+    suggestListVenues: {
+      title: 'リストにおすすめのスポットを取得',
+      description: 'リストの内容をもとに、追加するのにおすすめのベニューを取得します',
+      notFound: 'おすすめのベニューが見つかりませんでした。'
+    },
+    getUserTips: {
+      title: '自分のTipsを取得',
+      description: '認証済みユーザーが投稿したTipsを取得します',
+      offset: '取得開始位置',
+      venueId: 'このベニューのTipsのみ取得',
+      categoryId: 'このカテゴリーのベニューのTipsのみ取得'
+    },
+    getVenueTips: {
+      title: 'ベニューのTipsを取得',
+      description: 'ベニューに投稿されたTipsを取得します',
+      sort: 'ソート順（popularは人気順、recentは新しい順）',
+      limit: '取得件数'
+    },
+    getTip: {
+      title: 'Tipの詳細を取得',
+      description: 'Tipの詳細を取得します'
+    },
+    addTip: {
+      title: 'Tipを投稿',
+      description: 'ベニューにTipを投稿します。投稿前にelicitationで確認を求めます。dryRunで投稿内容だけを確認できます',
+      venueId: 'Tipを投稿するベニューID',
+      text: 'Tipの本文（最大200文字）',
+      confirm: (preview: string) => `以下の内容でTipを投稿します。Tipは公開されます。\n\n${preview}`,
+      done: (tip: string) => `✅ Tipを投稿しました\n\n${tip}`
+    },
+    voteTip: {
+      title: 'Tipに投票',
+      description: 'Tipに高評価または低評価を付けます。投票前にelicitationで確認を求めます',
+      upvote: 'true: 高評価、false: 低評価',
+      upvoteLabel: '👍 高評価',
+      downvoteLabel: '👎 低評価',
+      confirm: (label: string, tip: string) => `以下のTipに${label}を付けます。\n\n${tip}`,
+      done: (label: string, tip: string) => `✅ ${label}を付けました\n\n${tip}`
+    },
+    deleteTip: {
+      title: 'Tipを削除',
+      description: '自分が投稿したTipを削除します。削除前にelicitationで確認を求めます',
+      confirm: (target: string) => `以下のTipを削除します。この操作は取り消せません。\n\n${target}`,
+      done: (target: string) => `🗑️ Tipを削除しました\n\n${target}`
+    },
+    flagTip: {
+      title: 'Tipを報告',
+      description: '問題のあるTipを報告します。報告前にelicitationで確認を求めます',
+      problem: '問題の種類',
+      confirm: (problem: string, target: string) => `以下のTipを「${problem}」として報告します。\n\n${target}`,
+      done: (target: string) => `🚩 Tipを報告しました\n\n${target}`
+    },
+    getUserTastes: {
+      title: '自分のテイストを取得',
+      description: '認証済みユーザーのテイスト（好み）一覧を取得します',
+      found: (count: number) => `🍽️ ${count}件のテイストが登録されています`
+    },
+    addTastes: {
+      title: 'テイストを追加',
+      description: 'テイストをプロフィールに追加します',
+      tasteIds: '追加するテイストIDの配列',
+      done: (count: number) => `✅ ${count}件のテイストを追加しました`
+    },
+    deleteTaste: {
+      title: 'テイストを削除',
+      description: 'テイストをプロフィールから削除します',
+      tasteId: '削除するテイストID',
+      done: (tasteId: string) => `🗑️ テイスト ${tasteId} を削除しました`
+    },
+    autocompleteTastes: {
+      title: 'テイストを検索',
+      description: 'キーワードからテイストを検索してIDを取得します'
+    },
+    getTasteSuggestions: {
+      title: 'おすすめのテイストを取得',
+      description: 'Foursquareがおすすめするテイストを取得します'
+    },
+    suggestTastesFromCheckins: {
+      title: 'チェックイン履歴からテイストを提案',
+      description: 'よく行くベニューのカテゴリーを集計し、まだ登録していないテイストの候補を提案します',
+      limit: '集計に使うチェックイン件数（最大100）',
+      topCategories: '候補を探すカテゴリー数',
+      notFound: 'カテゴリー付きのチェックインが見つかりませんでした。',
+      noCandidates: '（未登録の候補なし）',
+      section: (name: string, count: number, body: string) => `🏷️ ${name}（${count}回）\n${body}`,
+      intro: (count: number) => `🍽️ 直近${count}件のチェックインでよく行くカテゴリーと、未登録のテイスト候補です。\nadd-tastes ツールにIDを渡すと登録できます。`
+    },
+    recommendVenues: {
+      title: 'おすすめのベニューを取得',
+      description: 'パーソナライズされたおすすめベニューを取得し、チェックイン履歴と照合して訪問済みかどうかを付記します。場所を省略すると最新チェックインの位置を使います',
+      query: '検索キーワード（section指定時は無効）',
+      section: 'ジャンル',
+      price: '価格帯（1〜4の配列、1が最も安い）',
+      openNow: '営業中のベニューのみ',
+      notFound: 'おすすめのベニューが見つかりませんでした。'
+    },
+    autocompleteVenues: {
+      title: 'ベニュー名から候補を検索',
+      description: '「渋谷のあのラーメン屋」のような曖昧な名前から、ベニューIDと緯度経度の候補を取得します',
+      query: 'ベニュー名（入力途中でも可）',
+      ll: '候補を優先する地点（緯度,経度）',
+      near: '候補を優先する地名',
+      radius: '候補を優先する範囲（メートル、最大100000）'
+    },
+    autocompletePlaces: {
+      title: '地名から場所の候補を検索',
+      description: '地名（入力途中でも可）から、緯度経度付きの場所の候補を取得します',
+      query: '地名（入力途中でも可）',
+      notFound: '場所が見つかりませんでした。'
+    },
+    trendingVenues: {
+      title: 'にぎわっているベニューを取得',
+      description: '周辺で今にぎわっているベニューを取得します。場所を省略すると最新チェックインの位置を使います',
+      source: '場所を省略した際に使う最新チェックインの取得元',
+      notFound: 'にぎわっているベニューが見つかりませんでした。'
+    },
+    relatedVenues: {
+      title: '似ているベニューを取得',
+      description: '指定したベニューに関連するベニューを取得し、チェックイン履歴から自分の訪問回数を付記します。アーカイブが空の場合はAPIの履歴と照合します',
+      venueId: '基準にするベニューID',
+      notFound: '関連するベニューが見つかりませんでした。'
+    },
+    listCategories: {
+      title: 'カテゴリー一覧を取得',
+      description: 'ベニューカテゴリーの階層を表示します。カテゴリー階層は設定ディレクトリにキャッシュされ、30日ごとに更新されます',
+      query: 'カテゴリー名で検索（完全一致・大文字小文字を区別しない。一致したカテゴリーのサブカテゴリーも表示）',
+      depth: '表示する階層の深さ',
+      refresh: 'キャッシュを使わずAPIから取り直す',
+      notFound: 'カテゴリーが見つかりませんでした。',
+      found: (count: number) => `🏷️ ${count}件のカテゴリー`,
+      foundWithDate: (count: number, date: string) => `🏷️ ${count}件のカテゴリー（${date}取得）`
+    },
+    syncCheckins: {
+      title: 'チェックインをローカルに同期',
+      description: 'ローカルアーカイブより新しいチェックインのみをAPIから取得して保存します。初回は全履歴を取得します。Foursquare側で削除したチェックインはアーカイブから削除されません',
+      done: (added: number, total: number) => `✅ 同期完了\n\n新規チェックイン: ${added}件\nアーカイブ内の合計: ${total}件`,
+      resumeHint: '取得済みの内容をチェックポイントに保存しました。時間をおいて resume: true で再実行すると続きから同期します。'
+    },
+    checkinStats: {
+      title: 'チェックイン統計',
+      description: 'チェックイン履歴をベニュー・カテゴリー・都市・曜日・時間帯ごとに集計し、初回/最終訪問日、連続チェックイン日数、月ごとの推移を表にします。曜日・時間帯は現地時刻で集計します',
+      top: '各ランキングに表示する件数',
+      notFound: '対象期間のチェックインがありません。',
+      summary: (total: number, first: string, last: string) => `📊 ${total}件のチェックイン（${first}〜${last}）`,
+      longestStreak: (days: number, start: string, end: string) => `🔥 最長連続チェックイン: ${days}日（${start}〜${end}）`,
+      latestStreak: (days: number, start: string, end: string) => `📆 直近の連続チェックイン: ${days}日（${start}〜${end}）`,
+      venues: '🏠 ベニュー別',
+      categories: '🏷️ カテゴリー別',
+      cities: '🏙️ 都市別',
+      weekdays: '📅 曜日別',
+      hours: '🕒 時間帯別',
+      months: '📈 月ごとの推移',
+      count: '回数',
+      venue: 'ベニュー',
+      firstVisit: '初回',
+      lastVisit: '最終',
+      category: 'カテゴリー',
+      city: '都市',
+      weekday: '曜日',
+      hour: '時間帯',
+      hourLabel: (hour: number) => `${hour}時台`,
+      month: '月',
+      change: '前月比',
+      resumeHint: '取得済みの内容をチェックポイントに保存しました。時間をおいて resume: true で再実行すると続きから取得します。'
+    },
+    searchCheckinsByLocation: {
+      title: '場所でチェックインを検索',
+      description: 'チェックイン履歴を位置で検索します。指定地点から半径内（radius）、矩形の範囲内（bbox）、指定地点から最も近い訪問済みのベニュー（nearest）を、ハーバーサイン距離の近い順に返します',
+      mode: '検索方法（radius: 半径内、bbox: 矩形の範囲内、nearest: 近い訪問済みベニュー）',
+      ll: '基準地点（緯度,経度）。radius・nearestで省略した場合は最新チェックインの位置を使う',
+      radius: '検索半径（メートル、radiusのみ）',
+      bbox: '範囲の矩形（南西の緯度,南西の経度,北東の緯度,北東の経度、bboxのみ）',
+      limit: '返す件数',
+      bboxRequired: '❌ エラー: mode が bbox の場合は bbox を指定してください',
+      withinRadius: (origin: string, radius: string, count: number) => `📍 ${origin} から${radius}以内のチェックイン: ${count}件`,
+      inBoundingBox: (count: number) => `🗺️ 範囲内のチェックイン: ${count}件`,
+      nearest: (origin: string, count: number) => `📍 ${origin} から近い訪問済みのベニュー: ${count}件`,
+      distance: (distance: string) => `📏 ${distance}`,
+      visitCount: (count: number) => `🔁 訪問回数: ${count}回`,
+      resumeHint: '取得済みの内容をチェックポイントに保存しました。時間をおいて resume: true で再実行すると続きから取得します。'
+    },
+    searchMyCheckins: {
+      title: 'チェックインを全文検索',
+      description: 'チェックイン履歴のシャウト・ベニュー名・住所・カテゴリー名を全文検索し、関連度の高い順に一致箇所を強調して返します。日本語は文字bigramで検索するため、単語の区切りが無くても一致します',
+      query: '検索キーワード（複数語はすべてを含むものを検索）',
+      limit: '返す件数',
+      found: (query: string, count: number) => `🔎 「${query}」に一致するチェックイン: ${count}件`,
+      fields: {
+        venue: 'ベニュー',
+        category: 'カテゴリー',
+        shout: 'シャウト',
+        address: '住所'
+      },
+      highlight: (field: string, snippet: string) => `🔎 ${field}: ${snippet}`,
+      resumeHint: '取得済みの内容をチェックポイントに保存しました。時間をおいて resume: true で再実行すると続きから取得します。'
+    },
+    exportCheckins: {
+      title: 'チェックインをエクスポート',
+      description: 'チェックイン履歴をGeoJSON（FeatureCollection）・GPX（ウェイポイントとトラック）・KML・CSV・ICS（カレンダー）・HTML（オフラインで見られる地図）で出力します。ベニュー名・カテゴリー・日時・シャウトを含みます',
+      format: '出力形式',
+      path: '書き込み先のファイルパス（省略時は内容をそのまま返す）',
+      written: (count: number, path: string) => `📤 ${count}件のチェックインを書き出しました: ${path}`,
+      resumeHint: '取得済みの内容をチェックポイントに保存しました。時間をおいて resume: true で再実行すると続きから取得します。',
+      map: {
+        title: 'チェックインマップ',
+        summary: (count: number) => `📍 ${count}件のチェックイン`,
+        markers: 'マーカー',
+        heatmap: 'ヒートマップ',
+        tiles: '背景地図（OpenStreetMap、オンライン時のみ）',
+        fit: '全体'
+      }
+    },
+    generateReview: {
+      title: '1年のふりかえりを作成',
+      description: '1年分のチェックインから、合計・よく行ったベニューとカテゴリー・新しく訪れた場所・訪れた都市と国・よく出かけた月・写真のフォトストリップをまとめたふりかえりレポートをMarkdownまたは1ファイルで完結するHTMLで作成します。新しく訪れた場所の判定のため、その年より前の履歴も取得します',
+      year: 'ふりかえる年（省略時は今年）',
+      format: '出力形式',
+      top: '各ランキングに表示する件数',
+      path: '書き込み先のファイルパス（省略時は内容をそのまま返す）',
+      notFound: (year: number) => `${year}年のチェックインがありません。`,
+      written: (year: number, path: string) => `📝 ${year}年のふりかえりを書き出しました: ${path}`,
+      heading: (year: number) => `📅 ${year}年のふりかえり`,
+      summary: (total: number, days: number, venues: number) => `📊 ${total}件のチェックイン・${days}日・${venues}か所のベニュー`,
+      highlights: (newPlaces: number, cities: number, countries: number) => `🆕 新しく訪れた場所 ${newPlaces}か所・🏙️ ${cities}都市・🌏 ${countries}か国`,
+      topVenues: '🏠 よく行ったベニュー',
+      topCategories: '🏷️ よく行ったカテゴリー',
+      newPlaces: (count: number) => `🆕 新しく訪れた場所（${count}か所）`,
+      cities: (count: number) => `🏙️ 訪れた都市（${count}都市）`,
+      countries: (count: number) => `🌏 訪れた国（${count}か国）`,
+      country: '国',
+      busiestMonths: '📈 よく出かけた月',
+      busiest: (months: string[]) => `🔥 ${months.join('、')}`,
+      monthLabel: (month: number) => `${month}月`,
+      monthCount: (month: string, count: number) => `${month}（${count}件）`,
+      photos: '📸 フォトストリップ',
+      more: (count: number) => `ほか${count}件`,
+      resumeHint: '取得済みの内容をチェックポイントに保存しました。時間をおいて resume: true で再実行すると続きから取得します。'
+    }
+  },
+
+  resources: {
+    recentCheckins: {
+      title: '最近のチェックイン',
+      description: '認証済みユーザーの最新チェックイン20件（APIから取得できない場合はローカルアーカイブから）',
+      fromArchive: '⚠️ APIから取得できなかったため、ローカルアーカイブの内容を表示しています（最後の同期以降のチェックインは含まれません）。'
+    },
+    checkin: {
+      title: 'チェックイン',
+      description: 'チェックインの詳細（ローカルアーカイブに無い場合はAPIから取得）'
+    },
+    venue: {
+      title: 'ベニュー',
+      description: 'ベニューの詳細'
+    }
+  },
+
+  prompts: {
+    weeklyTravelDiary: {
+      title: '週次旅行日記',
+      description: '1週間分のチェックインから旅行日記を作成します',
+      weekStart: '週の開始日（YYYY-MM-DD、省略時は今日までの7日間）',
+      instruction: (from: string, to: string) => `以下は${from}〜${to}の1週間のFoursquareチェックインです。` +
+        `訪れた場所・移動・食事を時系列でたどり、旅行日記風の文章にまとめてください。`
+    },
+    restaurantRevisitSuggestions: {
+      title: '再訪レストランの提案',
+      description: '過去のチェックインから再訪をおすすめしたいお店を提案します',
+      category: 'カテゴリー名で絞り込み（デフォルト: Food）',
+      since: 'この日以降のチェックインを対象（YYYY-MM-DD、省略時は1年前）',
+      visits: (name: string, count: number, lastVisit: string, categories: string) =>
+        `- ${name}（${count}回、最終訪問: ${lastVisit}）${categories ? ` [${categories}]` : ''}`,
+      instruction: (from: string) => `以下は${from}以降に訪れたお店と訪問回数です。` +
+        `訪問回数や最後に訪れてからの期間を踏まえて、また行きたくなりそうなお店を理由とともに5件ほど提案してください。`
+    },
+    tripSummary: {
+      title: '旅行サマリー',
+      description: '指定期間のチェックインから旅行の要約を作成します',
+      from: '旅行の開始日（YYYY-MM-DD）',
+      to: '旅行の終了日（YYYY-MM-DD）',
+      instruction: (from: string, to: string) => `以下は${from}〜${to}の旅行中のFoursquareチェックインです。` +
+        `日ごとの行程、訪れた主なスポット、食べたもの、印象的だった出来事を要約してください。`
+    }
+  }
+};
+
+export type Messages = typeof ja;
@@ -0,0 +1,490 @@
+import { settingsManager } from './settings.js';
+import { t } from './i18n.js';
+import { escapeHtml } from './html.js';
+
+/**
+ * 地図に表示する1地点
+ */
+export interface MapPoint {
+  lat: number;
+  lng: number;
+  text: string; // ポップアップに表示する内容
+}
+
+// <script>内に埋め込むJSON（</script> やU+2028/U+2029で壊れないようにエスケープ）
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+// 地図のスタイル
+const MAP_STYLE = `
+html, body { margin: 0; height: 100%; font-family: -apple-system, BlinkMacSystemFont, "Hiragino Sans", "Noto Sans JP", sans-serif; }
+#map { display: block; width: 100%; height: 100%; background: #eef2f5; cursor: grab; touch-action: none; }
+#map.dragging { cursor: grabbing; }
+.panel { position: absolute; top: 12px; left: 12px; background: rgba(255, 255, 255, 0.95); border-radius: 8px; padding: 10px 12px; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.3); font-size: 14px; }
+.panel h1 { font-size: 16px; margin: 0 0 4px; }
+.panel p { margin: 0 0 8px; color: #555; }
+.panel label { display: block; margin: 2px 0; }
+.zoom { position: absolute; top: 12px; right: 12px; display: flex; flex-direction: column; gap: 4px; }
+.zoom button { min-width: 36px; height: 36px; border: none; border-radius: 6px; background: #fff; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.3); font-size: 16px; cursor: pointer; }
+#popup { position: absolute; display: none; max-width: 320px; max-height: 320px; overflow: auto; transform: translate(-50%, calc(-100% - 16px)); background: #fff; border-radius: 8px; padding: 10px 28px 10px 12px; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.35); font-size: 13px; }
+#popup .entry { white-space: pre-wrap; }
+#popup .entry + .entry { border-top: 1px solid #eee; margin-top: 8px; padding-top: 8px; }
+#popup-close { position: absolute; top: 4px; right: 6px; border: none; background: none; font-size: 16px; cursor: pointer; }
+#attribution { position: absolute; right: 4px; bottom: 4px; display: none; background: rgba(255, 255, 255, 0.8); padding: 0 4px; font-size: 11px; }
+`;
+
+// 地図の描画処理（外部ライブラリを使わず、Webメルカトル図法でcanvasに描画する）
+const MAP_SCRIPT = `
+(function () {
+  var TILE_SIZE = 256;
+  var MIN_ZOOM = 1;
+  var MAX_ZOOM = 19;
+  var FIT_MAX_ZOOM = 16;
+  var CLUSTER_SIZE = 60;
+  var HEAT_RADIUS = 24;
+  var POPUP_LIMIT = 50;
+  var GRATICULE_STEPS = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 30];
+
+  var canvas = document.getElementById('map');
+  var ctx = canvas.getContext('2d');
+  var popup = document.getElementById('popup');
+  var popupBody = document.getElementById('popup-body');
+  var attribution = document.getElementById('attribution');
+  var layers = { markers: true, heatmap: true, tiles: false };
+  var view = { x: TILE_SIZE / 2, y: TILE_SIZE / 2, zoom: MIN_ZOOM };
+  var width = 0;
+  var height = 0;
+  var ratio = 1;
+  var clusters = [];
+  var popupAnchor = null;
+  var tileCache = {};
+  var drawRequested = false;
+
+  function clamp(value, min, max) {
+    return Math.min(Math.max(value, min), max);
+  }
+
+  // 緯度経度をズーム0のワールド座標に変換
+  function project(lat, lng) {
+    var sin = clamp(Math.sin(lat * Math.PI / 180), -0.9999, 0.9999);
+    return {
+      x: TILE_SIZE * (0.5 + lng / 360),
+      y: TILE_SIZE * (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI))
+    };
+  }
+
+  function unprojectLat(y) {
+    return Math.atan(Math.sinh(Math.PI * (1 - 2 * y / TILE_SIZE))) * 180 / Math.PI;
+  }
+
+  var points = CHECKINS.map(function (checkin) {
+    var point = project(checkin.lat, checkin.lng);
+    point.text = checkin.text;
+    return point;
+  });
+
+  function scale() {
+    return Math.pow(2, view.zoom);
+  }
+
+  function toScreen(x, y) {
+    var s = scale();
+    return { x: (x - view.x) * s + width / 2, y: (y - view.y) * s + height / 2 };
+  }
+
+  function toWorld(screenX, screenY) {
+    var s = scale();
+    return { x: view.x + (screenX - width / 2) / s, y: view.y + (screenY - height / 2) / s };
+  }
+
+  // 全地点が収まるように表示範囲を合わせる
+  function fit() {
+    if (points.length === 0) {
+      view = { x: TILE_SIZE / 2, y: TILE_SIZE / 2, zoom: MIN_ZOOM };
+      return;
+    }
+    var minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    points.forEach(function (point) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    });
+    var zoom = Math.log2(Math.min(
+      Math.max(width - 80, 1) / Math.max(maxX - minX, 1e-9),
+      Math.max(height - 80, 1) / Math.max(maxY - minY, 1e-9)
+    ));
+    view = { x: (minX + maxX) / 2, y: (minY + maxY) / 2, zoom: clamp(Math.floor(zoom), MIN_ZOOM, FIT_MAX_ZOOM) };
+  }
+
+  function setZoom(zoom, screenX, screenY) {
+    var before = toWorld(screenX, screenY);
+    view.zoom = clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+    var after = toWorld(screenX, screenY);
+    view.x += before.x - after.x;
+    view.y += before.y - after.y;
+    requestDraw();
+  }
+
+  // OpenStreetMapのタイル（オンライン時のみ表示される）
+  function drawTiles() {
+    var z = clamp(Math.round(view.zoom), 0, MAX_ZOOM);
+    var count = Math.pow(2, z);
+    var tileWorld = TILE_SIZE / count;
+    var s = scale();
+    var topLeft = toWorld(0, 0);
+    var bottomRight = toWorld(width, height);
+    for (var y = Math.max(0, Math.floor(topLeft.y / tileWorld)); y <= Math.min(count - 1, Math.floor(bottomRight.y / tileWorld)); y++) {
+      for (var x = Math.floor(topLeft.x / tileWorld); x <= Math.floor(bottomRight.x / tileWorld); x++) {
+        var key = z + '/' + (((x % count) + count) % count) + '/' + y;
+        var image = tileCache[key];
+        if (!image) {
+          image = tileCache[key] = new Image();
+          image.onload = requestDraw;
+          image.src = 'https://tile.openstreetmap.org/' + key + '.png';
+        }
+        if (image.complete && image.naturalWidth > 0) {
+          var position = toScreen(x * tileWorld, y * tileWorld);
+          ctx.drawImage(image, position.x, position.y, tileWorld * s + 0.5, tileWorld * s + 0.5);
+        }
+      }
+    }
+  }
+
+  // 緯線・経線（間隔はズームに合わせて選ぶ）
+  function drawGraticule() {
+    var degreePixels = TILE_SIZE * scale() / 360;
+    var step = GRATICULE_STEPS.find(function (value) { return value * degreePixels >= 80; }) || 30;
+    var topLeft = toWorld(0, 0);
+    var bottomRight = toWorld(width, height);
+    var west = topLeft.x / TILE_SIZE * 360 - 180;
+    var east = bottomRight.x / TILE_SIZE * 360 - 180;
+    var north = Math.min(85, unprojectLat(Math.max(0, topLeft.y)));
+    var south = Math.max(-85, unprojectLat(Math.min(TILE_SIZE, bottomRight.y)));
+    var digits = step < 1 ? String(step).split('.')[1].length : 0;
+
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.08)';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+    ctx.font = '11px sans-serif';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (var lng = Math.ceil(west / step) * step; lng <= east; lng += step) {
+      var x = toScreen(TILE_SIZE * (0.5 + lng / 360), 0).x;
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.fillText(lng.toFixed(digits), x + 3, height - 4);
+    }
+    for (var lat = Math.ceil(south / step) * step; lat <= north; lat += step) {
+      var y = toScreen(0, project(lat, 0).y).y;
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.fillText(lat.toFixed(digits), 4, y - 3);
+    }
+    ctx.stroke();
+  }
+
+  // 密度のヒートマップ（点の濃さを重ねてから色に置き換える）
+  var heatCanvas = document.createElement('canvas');
+  var palette = (function () {
+    var paletteCanvas = document.createElement('canvas');
+    paletteCanvas.width = 256;
+    paletteCanvas.height = 1;
+    var paletteContext = paletteCanvas.getContext('2d');
+    var gradient = paletteContext.createLinearGradient(0, 0, 256, 0);
+    gradient.addColorStop(0.2, '#3b4cc0');
+    gradient.addColorStop(0.4, '#00b3d6');
+    gradient.addColorStop(0.6, '#5ad45a');
+    gradient.addColorStop(0.8, '#ffd700');
+    gradient.addColorStop(1, '#e8262b');
+    paletteContext.fillStyle = gradient;
+    paletteContext.fillRect(0, 0, 256, 1);
+    return paletteContext.getImageData(0, 0, 256, 1).data;
+  })();
+
+  function drawHeatmap(visible) {
+    heatCanvas.width = canvas.width;
+    heatCanvas.height = canvas.height;
+    var heatContext = heatCanvas.getContext('2d');
+    var radius = HEAT_RADIUS * ratio;
+    visible.forEach(function (point) {
+      var x = point.screenX * ratio;
+      var y = point.screenY * ratio;
+      var gradient = heatContext.createRadialGradient(x, y, 0, x, y, radius);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0.3)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      heatContext.fillStyle = gradient;
+      heatContext.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    });
+    var image = heatContext.getImageData(0, 0, heatCanvas.width, heatCanvas.height);
+    var data = image.data;
+    for (var i = 0; i < data.length; i += 4) {
+      var alpha = data[i + 3];
+      if (alpha > 0) {
+        data[i] = palette[alpha * 4];
+        data[i + 1] = palette[alpha * 4 + 1];
+        data[i + 2] = palette[alpha * 4 + 2];
+        data[i + 3] = Math.min(220, alpha * 2);
+      }
+    }
+    heatContext.putImageData(image, 0, 0);
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(heatCanvas, 0, 0);
+    ctx.restore();
+  }
+
+  // 表示中のズームでのピクセル座標をグリッドに区切り、同じマスの地点を1つのクラスターにまとめる
+  function buildClusters(visible) {
+    var s = scale();
+    var cells = {};
+    clusters = [];
+    visible.forEach(function (point) {
+      var key = Math.floor(point.x * s / CLUSTER_SIZE) + ':' + Math.floor(point.y * s / CLUSTER_SIZE);
+      var cluster = cells[key];
+      if (!cluster) {
+        cluster = cells[key] = { x: 0, y: 0, items: [] };
+        clusters.push(cluster);
+      }
+      cluster.x += point.x;
+      cluster.y += point.y;
+      cluster.items.push(point);
+    });
+    clusters.forEach(function (cluster) {
+      cluster.x /= cluster.items.length;
+      cluster.y /= cluster.items.length;
+      cluster.radius = cluster.items.length === 1 ? 7 : 14 + Math.min(14, Math.log(cluster.items.length) * 3);
+    });
+  }
+
+  function drawClusters() {
+    clusters.forEach(function (cluster) {
+      var position = toScreen(cluster.x, cluster.y);
+      ctx.beginPath();
+      ctx.arc(position.x, position.y, cluster.radius, 0, Math.PI * 2);
+      ctx.fillStyle = cluster.items.length === 1 ? '#f94877' : 'rgba(249, 72, 119, 0.85)';
+      ctx.fill();
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = '#fff';
+      ctx.stroke();
+      if (cluster.items.length > 1) {
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(cluster.items.length), position.x, position.y);
+        ctx.textAlign = 'start';
+        ctx.textBaseline = 'alphabetic';
+      }
+    });
+  }
+
+  function draw() {
+    drawRequested = false;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    if (layers.tiles) {
+      drawTiles();
+    }
+    drawGraticule();
+
+    var margin = HEAT_RADIUS;
+    var visible = [];
+    points.forEach(function (point) {
+      var position = toScreen(point.x, point.y);
+      if (position.x >= -margin && position.x <= width + margin && position.y >= -margin && position.y <= height + margin) {
+        point.screenX = position.x;
+        point.screenY = position.y;
+        visible.push(point);
+      }
+    });
+
+    if (layers.heatmap) {
+      drawHeatmap(visible);
+    }
+    buildClusters(layers.markers ? visible : []);
+    drawClusters();
+
+    if (popupAnchor) {
+      var anchor = toScreen(popupAnchor.x, popupAnchor.y);
+      popup.style.left = anchor.x + 'px';
+      popup.style.top = anchor.y + 'px';
+    }
+  }
+
+  function requestDraw() {
+    if (!drawRequested) {
+      drawRequested = true;
+      requestAnimationFrame(draw);
+    }
+  }
+
+  function showPopup(cluster) {
+    popupBody.textContent = '';
+    cluster.items.slice(0, POPUP_LIMIT).forEach(function (item) {
+      var entry = document.createElement('div');
+      entry.className = 'entry';
+      entry.textContent = item.text;
+      popupBody.appendChild(entry);
+    });
+    if (cluster.items.length > POPUP_LIMIT) {
+      var more = document.createElement('div');
+      more.className = 'entry';
+      more.textContent = '… +' + (cluster.items.length - POPUP_LIMIT);
+      popupBody.appendChild(more);
+    }
+    popupAnchor = { x: cluster.x, y: cluster.y };
+    popup.style.display = 'block';
+    popup.scrollTop = 0;
+    requestDraw();
+  }
+
+  function hidePopup() {
+    popupAnchor = null;
+    popup.style.display = 'none';
+  }
+
+  // クリックした位置のクラスターを開く（まだ拡大できる場合はズームイン、同じ地点だけなら内容を表示）
+  function handleClick(screenX, screenY) {
+    var hit = null;
+    clusters.forEach(function (cluster) {
+      var position = toScreen(cluster.x, cluster.y);
+      if (Math.hypot(position.x - screenX, position.y - screenY) <= cluster.radius + 2) {
+        hit = cluster;
+      }
+    });
+    if (!hit) {
+      hidePopup();
+      return;
+    }
+    var samePlace = hit.items.every(function (item) {
+      return Math.abs(item.x - hit.items[0].x) < 1e-9 && Math.abs(item.y - hit.items[0].y) < 1e-9;
+    });
+    if (hit.items.length === 1 || samePlace || view.zoom >= MAX_ZOOM) {
+      showPopup(hit);
+    } else {
+      hidePopup();
+      view.x = hit.x;
+      view.y = hit.y;
+      setZoom(Math.min(view.zoom + 2, MAX_ZOOM), width / 2, height / 2);
+    }
+  }
+
+  var drag = null;
+  canvas.addEventListener('pointerdown', function (event) {
+    drag = { x: event.clientX, y: event.clientY, viewX: view.x, viewY: view.y, moved: false };
+    canvas.setPointerCapture(event.pointerId);
+  });
+  canvas.addEventListener('pointermove', function (event) {
+    if (!drag) {
+      return;
+    }
+    var dx = event.clientX - drag.x;
+    var dy = event.clientY - drag.y;
+    if (Math.abs(dx) + Math.abs(dy) > 3) {
+      drag.moved = true;
+      canvas.classList.add('dragging');
+    }
+    view.x = drag.viewX - dx / scale();
+    view.y = drag.viewY - dy / scale();
+    requestDraw();
+  });
+  canvas.addEventListener('pointerup', function (event) {
+    if (drag && !drag.moved) {
+      var rect = canvas.getBoundingClientRect();
+      handleClick(event.clientX - rect.left, event.clientY - rect.top);
+    }
+    drag = null;
+    canvas.classList.remove('dragging');
+  });
+  canvas.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var rect = canvas.getBoundingClientRect();
+    setZoom(view.zoom - event.deltaY / 300, event.clientX - rect.left, event.clientY - rect.top);
+  }, { passive: false });
+
+  document.getElementById('zoom-in').addEventListener('click', function () {
+    setZoom(Math.round(view.zoom) + 1, width / 2, height / 2);
+  });
+  document.getElementById('zoom-out').addEventListener('click', function () {
+    setZoom(Math.round(view.zoom) - 1, width / 2, height / 2);
+  });
+  document.getElementById('zoom-fit').addEventListener('click', function () {
+    hidePopup();
+    fit();
+    requestDraw();
+  });
+  document.getElementById('popup-close').addEventListener('click', hidePopup);
+  Object.keys(layers).forEach(function (name) {
+    var checkbox = document.getElementById('layer-' + name);
+    checkbox.checked = layers[name];
+    checkbox.addEventListener('change', function () {
+      layers[name] = checkbox.checked;
+      attribution.style.display = layers.tiles ? 'block' : 'none';
+      requestDraw();
+    });
+  });
+
+  function resize() {
+    ratio = window.devicePixelRatio || 1;
+    width = canvas.clientWidth;
+    height = canvas.clientHeight;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    requestDraw();
+  }
+  window.addEventListener('resize', resize);
+
+  resize();
+  fit();
+  draw();
+})();
+`;
+
+/**
+ * チェックインの地点を1ファイルで完結するHTMLの地図に変換
+ * データと描画処理をすべて埋め込み、外部のライブラリやAPIキーを使わずにオフラインで表示できる
+ * マーカーのクラスター表示・密度のヒートマップ・ポップアップに対応する
+ * OpenStreetMapの背景地図は任意で、オンにした場合のみタイル画像を読み込む
+ */
+export function toMapHTML(points: MapPoint[]): string {
+  const messages = t().tools.exportCheckins.map;
+  const title = messages.title;
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${settingsManager.get().locale}">`,
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${MAP_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<canvas id="map"></canvas>',
+    '<div class="panel">',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p>${escapeHtml(messages.summary(points.length))}</p>`,
+    `<label><input type="checkbox" id="layer-markers"> ${escapeHtml(messages.markers)}</label>`,
+    `<label><input type="checkbox" id="layer-heatmap"> ${escapeHtml(messages.heatmap)}</label>`,
+    `<label><input type="checkbox" id="layer-tiles"> ${escapeHtml(messages.tiles)}</label>`,
+    '</div>',
+    '<div class="zoom">',
+    '<button id="zoom-in" type="button">+</button>',
+    '<button id="zoom-out" type="button">−</button>',
+    `<button id="zoom-fit" type="button">${escapeHtml(messages.fit)}</button>`,
+    '</div>',
+    '<div id="popup"><button id="popup-close" type="button">×</button><div id="popup-body"></div></div>',
+    '<div id="attribution">© OpenStreetMap contributors</div>',
+    '<script>',
+    `var CHECKINS = ${toScriptJson(points)};`,
+    MAP_SCRIPT,
+    '</script>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,8 @@
+/**
+ * Markdownの表を作成
+ */
+export function formatTable(headers: string[], rows: Array<Array<string | number>>): string {
+  return [headers, headers.map(() => '---'), ...rows]
+    .map(row => `| ${row.map(cell => String(cell).replace(/\|/g, '\\|')).join(' | ')} |`)
+    .join('\n');
+}
@@ -0,0 +1,391 @@
+import { z } from 'zod';
+import dayjs from 'dayjs';
+import {
+  foursquareAPI,
+  type CategoryNode,
+  type Checkin,
+  type FoursquareList,
+  type GeoAutocompleteResult,
+  type ListItem,
+  type Photo,
+  type Taste,
+  type Tip,
+  type Venue,
+  type VenueCategory,
+  type VenueDetails,
+  type VenueLocation,
+  type VenueTimeframe
+} from './api.js';
+import type { VenueVisits } from './stats.js';
+
+/**
+ * ツールの構造化出力（outputSchema / structuredContent）のスキーマと変換処理
+ * 日時はISO 8601形式の文字列で返す
+ */
+
+/**
+ * 更新系ツールの実行結果（done: 実行済み、dryRun: 内容確認のみ、cancelled: 確認で中止）
+ */
+export const mutationStatusSchema = z.enum(['done', 'dryRun', 'cancelled']);
+
+export const categoryOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  primary: z.boolean()
+});
+
+// ベニューとチェックインで共通の住所項目
+const addressShape = {
+  address: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  country: z.string().optional(),
+  formattedAddress: z.array(z.string()).optional()
+};
+
+// Tipやリストの項目に含まれるコンパクトなベニューには位置やカテゴリーが無い場合がある
+export const venueOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  ...addressShape,
+  categories: z.array(categoryOutputSchema),
+  lat: z.number().optional(),
+  lng: z.number().optional(),
+  distance: z.number().optional(),
+  url: z.string().optional(),
+  rating: z.number().optional(),
+  priceTier: z.number().optional()
+});
+
+export const visitedVenueOutputSchema = venueOutputSchema.extend({
+  visitCount: z.number(),
+  lastVisitedAt: z.string().optional()
+});
+
+export const checkinOutputSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  timeZoneOffset: z.number(),
+  shout: z.string().optional(),
+  venue: z.object({
+    id: z.string(),
+    name: z.string(),
+    ...addressShape
+  }),
+  categories: z.array(categoryOutputSchema),
+  lat: z.number(),
+  lng: z.number(),
+  photos: z.array(z.string()),
+  editableUntil: z.string().optional()
+});
+
+export const tipOutputSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  text: z.string(),
+  url: z.string().optional(),
+  agreeCount: z.number().optional(),
+  disagreeCount: z.number().optional(),
+  user: z.string().optional(),
+  venue: venueOutputSchema.optional()
+});
+
+export const listOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  public: z.boolean().optional(),
+  collaborative: z.boolean().optional(),
+  url: z.string().optional(),
+  itemCount: z.number()
+});
+
+export const listItemOutputSchema = z.object({
+  id: z.string(),
+  createdAt: z.string().optional(),
+  venue: venueOutputSchema.optional(),
+  tip: tipOutputSchema.optional()
+});
+
+export const tasteOutputSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  onUser: z.boolean()
+});
+
+export const placeOutputSchema = z.object({
+  text: z.string(),
+  lat: z.number().optional(),
+  lng: z.number().optional(),
+  venueId: z.string().optional()
+});
+
+export const timeframeOutputSchema = z.object({
+  days: z.array(z.number()),
+  open: z.array(z.object({
+    start: z.string(),
+    end: z.string()
+  }))
+});
+
+export const venueDetailsOutputSchema = z.object({
+  venue: venueOutputSchema,
+  description: z.string().optional(),
+  hours: z.array(timeframeOutputSchema).optional(),
+  popularHours: z.array(timeframeOutputSchema).optional(),
+  photos: z.array(z.string()).optional(),
+  tips: z.array(tipOutputSchema).optional(),
+  errors: z.array(z.object({
+    section: z.enum(['hours', 'attributes', 'photos', 'tips']),
+    message: z.string()
+  }))
+});
+
+// カテゴリー階層は再帰させず、親IDと深さ付きの一覧で返す
+export const categoryTreeOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  parentId: z.string().optional(),
+  depth: z.number()
+});
+
+const countEntrySchema = z.object({
+  name: z.string(),
+  count: z.number()
+});
+
+const venueStatsOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  count: z.number(),
+  firstVisit: z.string(),
+  lastVisit: z.string()
+});
+
+const streakOutputSchema = z.object({
+  days: z.number(),
+  start: z.string(),
+  end: z.string()
+});
+
+// チェックイン統計（日付はYYYY-MM-DD、月はYYYY-MM。weekdaysは月曜始まり）
+export const checkinStatsOutputSchema = z.object({
+  total: z.number(),
+  firstCheckin: z.string().optional(),
+  lastCheckin: z.string().optional(),
+  venues: z.array(venueStatsOutputSchema),
+  categories: z.array(countEntrySchema),
+  cities: z.array(countEntrySchema),
+  weekdays: z.array(z.number()),
+  hours: z.array(z.number()),
+  longestStreak: streakOutputSchema.optional(),
+  latestStreak: streakOutputSchema.optional(),
+  months: z.array(z.object({
+    month: z.string(),
+    count: z.number(),
+    change: z.number().nullable()
+  }))
+});
+
+// 1年分のふりかえり（monthsは1〜12月の12件）
+export const yearReviewOutputSchema = z.object({
+  year: z.number(),
+  total: z.number(),
+  days: z.number(),
+  venueCount: z.number(),
+  venues: z.array(venueStatsOutputSchema),
+  categories: z.array(countEntrySchema),
+  newPlaces: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    category: z.string().optional(),
+    firstVisit: z.string()
+  })),
+  cities: z.array(countEntrySchema),
+  countries: z.array(countEntrySchema),
+  months: z.array(z.number()),
+  photos: z.array(z.object({
+    url: z.string(),
+    venue: z.string(),
+    date: z.string()
+  }))
+});
+
+export type CheckinOutput = z.infer<typeof checkinOutputSchema>;
+export type VenueOutput = z.infer<typeof venueOutputSchema>;
+export type TipOutput = z.infer<typeof tipOutputSchema>;
+
+function toCategoryOutputs(categories: VenueCategory[] = []) {
+  return categories.map(category => ({
+    id: category.id,
+    name: category.name,
+    primary: category.primary ?? false
+  }));
+}
+
+function toAddressOutput(location: Partial<VenueLocation> = {}) {
+  return {
+    address: location.address,
+    city: location.city,
+    state: location.state,
+    country: location.country,
+    formattedAddress: location.formattedAddress
+  };
+}
+
+function toPhotoUrl(photo: Photo): string {
+  return `${photo.prefix}original${photo.suffix}`;
+}
+
+/**
+ * ベニューを構造化出力に変換
+ */
+export function toVenueOutput(venue: Venue): VenueOutput {
+  return {
+    id: venue.id,
+    name: venue.name,
+    ...toAddressOutput(venue.location),
+    categories: toCategoryOutputs(venue.categories),
+    lat: venue.location?.lat,
+    lng: venue.location?.lng,
+    distance: venue.location?.distance,
+    url: venue.url,
+    rating: venue.rating,
+    priceTier: venue.price?.tier
+  };
+}
+
+/**
+ * ベニューを自分の訪問状況付きの構造化出力に変換
+ */
+export function toVisitedVenueOutput(venue: Venue, visit: VenueVisits | undefined) {
+  return {
+    ...toVenueOutput(venue),
+    visitCount: visit?.count ?? 0,
+    lastVisitedAt: visit ? toCheckinOutput(visit.lastCheckin).createdAt : undefined
+  };
+}
+
+/**
+ * チェックインを構造化出力に変換
+ * createdAtはチェックインした場所の現地時刻（UTCオフセット付き）
+ */
+export function toCheckinOutput(checkin: Checkin): CheckinOutput {
+  const { venue } = checkin;
+  return {
+    id: checkin.id,
+    createdAt: foursquareAPI.getCheckinLocalTime(checkin).format(),
+    timeZoneOffset: checkin.timeZoneOffset,
+    shout: checkin.shout,
+    venue: {
+      id: venue.id,
+      name: venue.name,
+      ...toAddressOutput(venue.location)
+    },
+    categories: toCategoryOutputs(venue.categories),
+    lat: venue.location.lat,
+    lng: venue.location.lng,
+    photos: checkin.photos?.items.map(toPhotoUrl) ?? [],
+    editableUntil: checkin.editableUntil === undefined ? undefined : dayjs(checkin.editableUntil).toISOString()
+  };
+}
+
+/**
+ * Tipを構造化出力に変換
+ */
+export function toTipOutput(tip: Tip): TipOutput {
+  return {
+    id: tip.id,
+    createdAt: dayjs.unix(tip.createdAt).toISOString(),
+    text: tip.text,
+    url: tip.canonicalUrl,
+    agreeCount: tip.agreeCount,
+    disagreeCount: tip.disagreeCount,
+    user: tip.user ? [tip.user.firstName, tip.user.lastName].filter(Boolean).join(' ') : undefined,
+    venue: tip.venue ? toVenueOutput(tip.venue) : undefined
+  };
+}
+
+/**
+ * リストを構造化出力に変換
+ */
+export function toListOutput(list: FoursquareList) {
+  return {
+    id: list.id,
+    name: list.name,
+    description: list.description,
+    public: list.public,
+    collaborative: list.collaborative,
+    url: list.canonicalUrl,
+    itemCount: list.listItems?.count ?? 0
+  };
+}
+
+/**
+ * リストの項目を構造化出力に変換
+ */
+export function toListItemOutput(item: ListItem) {
+  return {
+    id: item.id,
+    createdAt: item.createdAt === undefined ? undefined : dayjs.unix(item.createdAt).toISOString(),
+    venue: item.venue ? toVenueOutput(item.venue) : undefined,
+    tip: item.tip ? toTipOutput(item.tip) : undefined
+  };
+}
+
+/**
+ * テイストを構造化出力に変換
+ */
+export function toTasteOutput(taste: Taste) {
+  return {
+    id: taste.id,
+    text: taste.text,
+    onUser: taste.onUser ?? false
+  };
+}
+
+/**
+ * 地名の候補を構造化出力に変換
+ */
+export function toPlaceOutput(place: GeoAutocompleteResult) {
+  return {
+    text: place.displayText || place.text,
+    lat: place.ll?.lat,
+    lng: place.ll?.lng,
+    venueId: place.venueId
+  };
+}
+
+function toTimeframeOutputs(timeframes: VenueTimeframe[] | undefined) {
+  return timeframes?.map(timeframe => ({
+    days: timeframe.days,
+    open: timeframe.open.map(({ start, end }) => ({ start, end }))
+  }));
+}
+
+/**
+ * ベニュー詳細レポートを構造化出力に変換
+ */
+export function toVenueDetailsOutput(details: VenueDetails) {
+  return {
+    venue: toVenueOutput(details.venue),
+    description: details.venue.description,
+    hours: toTimeframeOutputs(details.hours?.hours?.timeframes),
+    popularHours: toTimeframeOutputs(details.hours?.popular?.timeframes),
+    photos: details.photos?.map(toPhotoUrl),
+    tips: details.tips?.map(toTipOutput),
+    errors: details.errors
+  };
+}
+
+/**
+ * カテゴリー階層を親ID・深さ付きの一覧に変換（maxDepthより深い階層は含めない）
+ */
+export function toCategoryTreeOutputs(nodes: CategoryNode[], maxDepth: number, depth = 0, parentId?: string): Array<z.infer<typeof categoryTreeOutputSchema>> {
+  return nodes.flatMap(node => {
+    const children = node.categories && depth + 1 < maxDepth
+      ? toCategoryTreeOutputs(node.categories, maxDepth, depth + 1, node.id)
+      : [];
+    return [{ id: node.id, name: node.name, parentId, depth }, ...children];
+  });
+}
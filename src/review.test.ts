@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import type { Checkin } from './api.js';
+import { computeYearReview, renderYearReview } from './review.js';
+
+// 現地時刻（offsetで指定したタイムゾーン）の日時を指定したチェックイン
+function checkin(id: string, venueId: string, localTime: string, options: { name?: string; category?: string; country?: string; offset?: string } = {}): Checkin {
+  const offset = options.offset ?? '+09:00';
+  const [sign, hours, minutes] = [offset[0], Number(offset.slice(1, 3)), Number(offset.slice(4))];
+  return {
+    id,
+    createdAt: Date.parse(`${localTime}${offset}`) / 1000,
+    timeZoneOffset: (sign === '-' ? -1 : 1) * (hours * 60 + minutes),
+    venue: {
+      id: venueId,
+      name: options.name ?? `Venue ${venueId}`,
+      categories: options.category ? [{ id: `${venueId}-cat`, name: options.category, primary: true }] : [],
+      location: { lat: 0, lng: 0, country: options.country }
+    }
+  } as unknown as Checkin;
+}
+
+describe('computeYearReview', () => {
+  test('counts checkins, days and venues of the year only', () => {
+    const review = computeYearReview([
+      checkin('1', 'a', '2024-12-31T12:00:00'),
+      checkin('2', 'a', '2025-03-01T12:00:00'),
+      checkin('3', 'b', '2025-03-01T18:00:00'),
+      checkin('4', 'b', '2025-07-10T12:00:00'),
+      checkin('5', 'c', '2026-01-01T12:00:00')
+    ], 2025);
+    expect(review.total).toBe(3);
+    expect(review.days).toBe(2);
+    expect(review.venueCount).toBe(2);
+    expect(review.months[2]).toBe(2);
+    expect(review.months[6]).toBe(1);
+    expect(review.months.reduce((sum, count) => sum + count, 0)).toBe(3);
+  });
+
+  test('lists venues first visited in the year, using earlier years as history', () => {
+    const review = computeYearReview([
+      checkin('1', 'old', '2024-05-01T12:00:00'),
+      checkin('2', 'old', '2025-02-01T12:00:00'),
+      checkin('3', 'new', '2025-04-01T12:00:00', { category: 'Café' }),
+      checkin('4', 'new', '2025-03-01T12:00:00', { category: 'Café' })
+    ], 2025);
+    expect(review.newPlaces).toEqual([{ id: 'new', name: 'Venue new', category: 'Café', firstVisit: '2025-03-01' }]);
+  });
+
+  test('assigns checkins to years by local time', () => {
+    // 2025-01-01 00:30 JST はUTCでは2024年、2024-12-31 23:30 PST はUTCでは2025年
+    const review = computeYearReview([
+      checkin('tokyo', 'a', '2025-01-01T00:30:00'),
+      checkin('la', 'b', '2024-12-31T23:30:00', { offset: '-08:00' })
+    ], 2025);
+    expect(review.total).toBe(1);
+    expect(review.newPlaces.map(place => place.id)).toEqual(['a']);
+    expect(review.newPlaces[0]!.firstVisit).toBe('2025-01-01');
+  });
+
+  test('ranks countries by count', () => {
+    const review = computeYearReview([
+      checkin('1', 'a', '2025-01-01T12:00:00', { country: 'Japan' }),
+      checkin('2', 'b', '2025-01-02T12:00:00', { country: 'Taiwan' }),
+      checkin('3', 'c', '2025-01-03T12:00:00', { country: 'Taiwan' })
+    ], 2025);
+    expect(review.countries).toEqual([{ name: 'Taiwan', count: 2 }, { name: 'Japan', count: 1 }]);
+  });
+});
+
+describe('renderYearReview', () => {
+  const review = computeYearReview([
+    checkin('1', 'a', '2025-01-01T12:00:00', { name: 'Tom & Jerry <Bar>' }),
+    checkin('2', 'b', '2025-01-02T12:00:00', { name: 'Second' }),
+    checkin('3', 'c', '2025-01-03T12:00:00', { name: 'Third' })
+  ], 2025);
+
+  test('escapes venue names in HTML', () => {
+    const html = renderYearReview(review, 'html', 10);
+    expect(html).toContain('<td>Tom &amp; Jerry &lt;Bar&gt;</td>');
+    expect(html).not.toContain('<Bar>');
+  });
+
+  test('limits rankings to the top entries', () => {
+    const markdown = renderYearReview(review, 'markdown', 2);
+    expect(markdown).toMatch(/^\| 2 \| /m);
+    expect(markdown).not.toMatch(/^\| 3 \| /m);
+  });
+});
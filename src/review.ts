@@ -0,0 +1,351 @@
+import { foursquareAPI, type Checkin } from './api.js';
+import { settingsManager } from './settings.js';
+import { t } from './i18n.js';
+import { computeCheckinStats, type CountEntry, type VenueStats } from './stats.js';
+import { formatTable } from './markdown.js';
+import { escapeHtml } from './html.js';
+
+/**
+ * ふりかえりレポートの出力形式
+ */
+export const REVIEW_FORMATS = ['markdown', 'html'] as const;
+export type ReviewFormat = typeof REVIEW_FORMATS[number];
+
+/**
+ * その年に初めて訪れたベニュー
+ */
+export interface NewPlace {
+  id: string;
+  name: string;
+  category?: string;
+  firstVisit: string; // YYYY-MM-DD（現地時刻）
+}
+
+/**
+ * フォトストリップの1枚
+ */
+export interface ReviewPhoto {
+  url: string;
+  venue: string;
+  date: string; // YYYY-MM-DD（現地時刻）
+}
+
+/**
+ * 1年分のふりかえり
+ * 年・月・日付はチェックインした場所の現地時刻で集計する
+ */
+export interface YearReview {
+  year: number;
+  total: number;
+  days: number; // チェックインした日数
+  venueCount: number;
+  venues: VenueStats[];
+  categories: CountEntry[];
+  newPlaces: NewPlace[];
+  cities: CountEntry[];
+  countries: CountEntry[];
+  months: number[]; // 1〜12月の12件
+  photos: ReviewPhoto[];
+}
+
+// フォトストリップに載せる写真の最大数（多い場合は1年を通して均等に選ぶ）
+const PHOTO_STRIP_LIMIT = 24;
+
+// 月別グラフの棒の最大の長さ（Markdownの文字数）
+const BAR_LENGTH = 20;
+
+// 件数の多い上位を「よく出かけた月」とする数
+const BUSIEST_MONTHS = 3;
+
+function getPrimaryCategory(checkin: Checkin): string | undefined {
+  const { categories } = checkin.venue;
+  return (categories.find(c => c.primary) ?? categories[0])?.name;
+}
+
+// 均等な間隔で間引いて最大limit件を選ぶ（元の並び順を保つ）
+function pickEvenly<T>(items: T[], limit: number): T[] {
+  if (items.length <= limit) {
+    return items;
+  }
+  return Array.from({ length: limit }, (_, index) => items[Math.floor(index * items.length / limit)]!);
+}
+
+/**
+ * チェックイン履歴から指定した年のふりかえりを集計
+ * 新しく訪れた場所を判定するため、checkinsにはその年より前の履歴も含める
+ */
+export function computeYearReview(checkins: Checkin[], year: number): YearReview {
+  const visitedBefore = new Set<string>();
+  const yearCheckins: Checkin[] = [];
+  for (const checkin of checkins) {
+    const checkinYear = foursquareAPI.getCheckinLocalTime(checkin).year();
+    if (checkinYear < year) {
+      visitedBefore.add(checkin.venue.id);
+    } else if (checkinYear === year) {
+      yearCheckins.push(checkin);
+    }
+  }
+  yearCheckins.sort((a, b) => a.createdAt - b.createdAt);
+
+  const stats = computeCheckinStats(yearCheckins);
+  const newPlaces = new Map<string, NewPlace>();
+  const countries = new Map<string, number>();
+  const months = new Array<number>(12).fill(0);
+  const days = new Set<string>();
+  const photos: ReviewPhoto[] = [];
+
+  for (const checkin of yearCheckins) {
+    const time = foursquareAPI.getCheckinLocalTime(checkin);
+    const day = time.format('YYYY-MM-DD');
+    days.add(day);
+    months[time.month()]!++;
+
+    const { venue } = checkin;
+    if (!visitedBefore.has(venue.id) && !newPlaces.has(venue.id)) {
+      newPlaces.set(venue.id, { id: venue.id, name: venue.name, category: getPrimaryCategory(checkin), firstVisit: day });
+    }
+    if (venue.location.country) {
+      countries.set(venue.location.country, (countries.get(venue.location.country) ?? 0) + 1);
+    }
+    checkin.photos?.items.forEach(photo => {
+      photos.push({ url: `${photo.prefix}300x300${photo.suffix}`, venue: venue.name, date: day });
+    });
+  }
+
+  return {
+    year,
+    total: yearCheckins.length,
+    days: days.size,
+    venueCount: stats.venues.length,
+    venues: stats.venues,
+    categories: stats.categories,
+    newPlaces: [...newPlaces.values()],
+    cities: stats.cities,
+    countries: [...countries.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count),
+    months,
+    photos: pickEvenly(photos, PHOTO_STRIP_LIMIT)
+  };
+}
+
+/**
+ * レポートの各セクションの中身（形式ごとに描画する）
+ */
+type ReviewBlock =
+  | { type: 'text'; lines: string[] }
+  | { type: 'table'; headers: string[]; rows: Array<Array<string | number>> }
+  | { type: 'bars'; items: Array<{ label: string; count: number }> }
+  | { type: 'photos'; photos: ReviewPhoto[] };
+
+interface ReviewSection {
+  title: string;
+  blocks: ReviewBlock[];
+}
+
+// ランキングの上位top件と、残りの件数の注記
+function rankingBlocks(headers: string[], rows: Array<Array<string | number>>, top: number): ReviewBlock[] {
+  const blocks: ReviewBlock[] = [{
+    type: 'table',
+    headers: ['#', ...headers],
+    rows: rows.slice(0, top).map((row, index) => [index + 1, ...row])
+  }];
+  if (rows.length > top) {
+    blocks.push({ type: 'text', lines: [t().tools.generateReview.more(rows.length - top)] });
+  }
+  return blocks;
+}
+
+// ふりかえりをセクションの一覧に組み立てる
+function buildSections(review: YearReview, top: number): ReviewSection[] {
+  const messages = t().tools.generateReview;
+  const columns = t().tools.checkinStats;
+  const busiest = review.months
+    .map((count, month) => ({ label: messages.monthLabel(month + 1), count }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, BUSIEST_MONTHS);
+
+  const sections: ReviewSection[] = [
+    {
+      title: messages.topVenues,
+      blocks: rankingBlocks([columns.venue, columns.count], review.venues.map(venue => [venue.name, venue.count]), top)
+    },
+    {
+      title: messages.topCategories,
+      blocks: rankingBlocks([columns.category, columns.count], review.categories.map(category => [category.name, category.count]), top)
+    },
+    {
+      title: messages.newPlaces(review.newPlaces.length),
+      blocks: rankingBlocks(
+        [columns.venue, columns.category, columns.firstVisit],
+        review.newPlaces.map(place => [place.name, place.category ?? '', place.firstVisit]),
+        top
+      )
+    },
+    {
+      title: messages.cities(review.cities.length),
+      blocks: rankingBlocks([columns.city, columns.count], review.cities.map(city => [city.name, city.count]), top)
+    },
+    {
+      title: messages.countries(review.countries.length),
+      blocks: rankingBlocks([messages.country, columns.count], review.countries.map(country => [country.name, country.count]), top)
+    },
+    {
+      title: messages.busiestMonths,
+      blocks: [
+        { type: 'text', lines: [messages.busiest(busiest.map(({ label, count }) => messages.monthCount(label, count)))] },
+        { type: 'bars', items: review.months.map((count, month) => ({ label: messages.monthLabel(month + 1), count })) }
+      ]
+    }
+  ];
+  if (review.photos.length > 0) {
+    sections.push({ title: messages.photos, blocks: [{ type: 'photos', photos: review.photos }] });
+  }
+  return sections;
+}
+
+// レポート冒頭のサマリー
+function summaryLines(review: YearReview): string[] {
+  const messages = t().tools.generateReview;
+  return [
+    messages.summary(review.total, review.days, review.venueCount),
+    messages.highlights(review.newPlaces.length, review.cities.length, review.countries.length)
+  ];
+}
+
+function renderMarkdownBlock(block: ReviewBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.lines.join('\n');
+    case 'table':
+      return formatTable(block.headers, block.rows);
+    case 'bars': {
+      const max = Math.max(1, ...block.items.map(item => item.count));
+      return formatTable(
+        [t().tools.checkinStats.month, t().tools.checkinStats.count, ''],
+        block.items.map(({ label, count }) => [label, count, '█'.repeat(Math.round(count / max * BAR_LENGTH))])
+      );
+    }
+    case 'photos':
+      return block.photos
+        .map(photo => `![${`${photo.venue} (${photo.date})`.replace(/[[\]]/g, '')}](${photo.url})`)
+        .join(' ');
+  }
+}
+
+/**
+ * ふりかえりをMarkdownに変換
+ */
+function toMarkdown(review: YearReview, top: number): string {
+  const messages = t().tools.generateReview;
+  const sections = buildSections(review, top).map(section =>
+    [`## ${section.title}`, ...section.blocks.map(renderMarkdownBlock)].join('\n\n')
+  );
+  return [`# ${messages.heading(review.year)}`, summaryLines(review).join('\n'), ...sections].join('\n\n') + '\n';
+}
+
+function renderHtmlBlock(block: ReviewBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.lines.map(line => `<p>${escapeHtml(line)}</p>`).join('\n');
+    case 'table':
+      return [
+        '<table>',
+        `<thead><tr>${block.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>`,
+        '<tbody>',
+        ...block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+        '</tbody>',
+        '</table>'
+      ].join('\n');
+    case 'bars': {
+      const max = Math.max(1, ...block.items.map(item => item.count));
+      return [
+        '<div class="bars">',
+        ...block.items.map(({ label, count }) => [
+          '<div class="bar">',
+          `<span class="label">${escapeHtml(label)}</span>`,
+          `<span class="track"><span class="fill" style="width: ${(count / max * 100).toFixed(1)}%"></span></span>`,
+          `<span class="count">${count}</span>`,
+          '</div>'
+        ].join('')),
+        '</div>'
+      ].join('\n');
+    }
+    case 'photos':
+      return [
+        '<div class="photos">',
+        ...block.photos.map(photo => [
+          '<figure>',
+          `<img src="${escapeHtml(photo.url)}" alt="${escapeHtml(photo.venue)}" loading="lazy">`,
+          `<figcaption>${escapeHtml(photo.venue)}<br>${escapeHtml(photo.date)}</figcaption>`,
+          '</figure>'
+        ].join('')),
+        '</div>'
+      ].join('\n');
+  }
+}
+
+// HTMLレポートのスタイル（外部ファイルに依存しないよう埋め込む）
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Hiragino Sans", "Noto Sans JP", sans-serif; max-width: 880px; margin: 0 auto; padding: 32px 16px; color: #222; line-height: 1.6; }
+h1 { font-size: 2em; margin-bottom: 0.2em; }
+h2 { margin-top: 2em; border-bottom: 2px solid #f94877; padding-bottom: 4px; }
+.summary p { margin: 0.2em 0; font-size: 1.1em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #eee; }
+th { background: #fafafa; }
+.bars { display: grid; gap: 4px; }
+.bar { display: grid; grid-template-columns: 5em 1fr 3em; align-items: center; gap: 8px; }
+.track { background: #f1f1f1; border-radius: 4px; height: 14px; overflow: hidden; }
+.fill { display: block; height: 100%; background: #f94877; }
+.count { text-align: right; }
+.photos { display: flex; gap: 8px; overflow-x: auto; padding-bottom: 8px; }
+.photos figure { flex: 0 0 160px; margin: 0; }
+.photos img { width: 160px; height: 160px; object-fit: cover; border-radius: 6px; }
+.photos figcaption { font-size: 0.8em; color: #666; }
+`;
+
+/**
+ * ふりかえりを1ファイルで完結するHTMLに変換
+ * 写真はFoursquareの画像URLを参照する
+ */
+function toHTML(review: YearReview, top: number): string {
+  const heading = t().tools.generateReview.heading(review.year);
+  const sections = buildSections(review, top).map(section => [
+    '<section>',
+    `<h2>${escapeHtml(section.title)}</h2>`,
+    ...section.blocks.map(renderHtmlBlock),
+    '</section>'
+  ].join('\n'));
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${settingsManager.get().locale}">`,
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(heading)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(heading)}</h1>`,
+    `<div class="summary">${summaryLines(review).map(line => `<p>${escapeHtml(line)}</p>`).join('')}</div>`,
+    ...sections,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * ふりかえりを指定形式の文字列に変換（ランキングは上位top件まで）
+ */
+export function renderYearReview(review: YearReview, format: ReviewFormat, top: number): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(review, top);
+    case 'html':
+      return toHTML(review, top);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import type { Checkin } from './api.js';
+import { searchCheckins, tokenize } from './search.js';
+
+// 検索に使うフィールドだけを持つチェックイン
+function checkin(id: string, venue: string, options: { category?: string; shout?: string; address?: string; createdAt?: number } = {}): Checkin {
+  return {
+    id,
+    createdAt: options.createdAt ?? 0,
+    shout: options.shout,
+    venue: {
+      id: `v-${id}`,
+      name: venue,
+      categories: options.category ? [{ id: `c-${id}`, name: options.category }] : [],
+      location: { lat: 0, lng: 0, formattedAddress: options.address ? [options.address] : undefined }
+    }
+  } as unknown as Checkin;
+}
+
+describe('tokenize', () => {
+  test('splits Japanese runs into character bigrams', () => {
+    expect(tokenize('東京駅')).toEqual(['東京', '京駅']);
+  });
+
+  test('keeps a single Japanese character as one token', () => {
+    expect(tokenize('駅')).toEqual(['駅']);
+  });
+
+  test('adds each Japanese character in document mode', () => {
+    expect(tokenize('東京駅', 'document')).toEqual(['東', '京', '駅', '東京', '京駅']);
+  });
+
+  test('lowercases words and folds full-width letters', () => {
+    expect(tokenize('ＳＴＡＲ Bucks')).toEqual(['star', 'bucks']);
+  });
+
+  test('separates Japanese and Latin runs', () => {
+    expect(tokenize('渋谷Cafe')).toEqual(['渋谷', 'cafe']);
+  });
+});
+
+describe('searchCheckins', () => {
+  const checkins = [
+    checkin('ramen', '麺屋 東京', { category: 'Ramen Restaurant', shout: '東京駅でラーメン', address: '東京都千代田区' }),
+    checkin('station', '渋谷駅', { category: 'Train Station' }),
+    checkin('starbucks', 'Starbucks Coffee', { category: 'Coffee Shop' }),
+    checkin('bar', 'Restart Bar', { category: 'Bar' })
+  ];
+
+  test('returns nothing for a query without tokens', () => {
+    expect(searchCheckins(checkins, '  !? ')).toEqual([]);
+  });
+
+  test('matches a single kanji inside a longer word', () => {
+    const ids = searchCheckins(checkins, '駅').map(result => result.checkin.id);
+    expect(ids).toContain('station');
+    expect(ids).toContain('ramen');
+  });
+
+  test('matches word prefixes but not the middle of a word', () => {
+    expect(searchCheckins(checkins, 'star').map(result => result.checkin.id)).toEqual(['starbucks']);
+  });
+
+  test('requires every query token to match', () => {
+    expect(searchCheckins(checkins, '東京 coffee')).toEqual([]);
+  });
+
+  test('ranks a venue name match above a shout-only match', () => {
+    const results = searchCheckins([
+      checkin('shout', 'Somewhere', { shout: 'ramen night' }),
+      checkin('name', 'Ramen Shop')
+    ], 'ramen');
+    expect(results.map(result => result.checkin.id)).toEqual(['name', 'shout']);
+    expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+  });
+
+  test('breaks score ties by the newest checkin', () => {
+    const results = searchCheckins([
+      checkin('old', 'Ramen', { createdAt: 100 }),
+      checkin('new', 'Ramen', { createdAt: 200 })
+    ], 'ramen');
+    expect(results.map(result => result.checkin.id)).toEqual(['new', 'old']);
+  });
+
+  test('highlights matches in the original text', () => {
+    const [result] = searchCheckins(checkins, 'ＢＡＲ');
+    expect(result!.checkin.id).toBe('bar');
+    expect(result!.highlights).toContainEqual({ field: 'venue', snippet: 'Restart **Bar**' });
+  });
+
+  test('highlights Japanese matches at any position', () => {
+    const [result] = searchCheckins(checkins, '渋谷');
+    expect(result!.highlights).toContainEqual({ field: 'venue', snippet: '**渋谷**駅' });
+  });
+});
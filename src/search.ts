@@ -0,0 +1,221 @@
+import type { Checkin } from './api.js';
+
+/**
+ * 検索対象のフィールド
+ */
+export type SearchField = 'venue' | 'category' | 'shout' | 'address';
+
+/**
+ * 一致箇所を強調したスニペット
+ */
+export interface SearchHighlight {
+  field: SearchField;
+  snippet: string;
+}
+
+/**
+ * 検索結果の1件
+ */
+export interface SearchResult {
+  checkin: Checkin;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+// フィールドごとの重み（ベニュー名の一致を最も重視する）
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  venue: 3,
+  category: 2,
+  shout: 1.5,
+  address: 1
+};
+
+// BM25のパラメータ
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// スニペットに含める一致箇所の前後の文字数
+const SNIPPET_CONTEXT = 30;
+
+// 日本語（漢字・ひらがな・カタカナ）の連続と、それ以外の文字・数字の連続
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]+|[\p{L}\p{N}]+/gu;
+const CJK_PATTERN = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]/u;
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}]/u;
+
+/**
+ * 検索用に正規化（全角英数字を半角に、大文字を小文字に）
+ * 1文字ずつ正規化して、正規化後の各文字が元の文字列のどの位置に対応するかも返す
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let position = 0;
+  for (const char of text) {
+    const converted = char.normalize('NFKC').toLowerCase();
+    for (let i = 0; i < converted.length; i++) {
+      offsets.push(position);
+    }
+    normalized += converted;
+    position += char.length;
+  }
+  offsets.push(position);
+  return { normalized, offsets };
+}
+
+/**
+ * テキストをトークンに分割
+ * 日本語は空白で区切られないため文字bigram（1文字だけの場合はその1文字）、それ以外は単語単位にする
+ * 検索対象の文書（document）では、1文字のクエリ（駅・店など）にも一致するよう日本語の各1文字も含める
+ */
+export function tokenize(text: string, mode: 'query' | 'document' = 'query'): string[] {
+  const tokens: string[] = [];
+  const { normalized } = normalizeWithOffsets(text);
+  for (const [run] of normalized.matchAll(TOKEN_PATTERN)) {
+    if (!CJK_PATTERN.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    const chars = [...run];
+    if (mode === 'document') {
+      tokens.push(...chars);
+    } else if (chars.length === 1) {
+      tokens.push(run);
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+      tokens.push(chars[i]! + chars[i + 1]!);
+    }
+  }
+  return tokens;
+}
+
+// フィールド内でのトークンの出現回数
+// 日本語以外の単語は前方一致で数える（"star" で "starbucks" にも一致させる）
+function countTerm(frequencies: Map<string, number>, term: string): number {
+  if (CJK_PATTERN.test(term)) {
+    return frequencies.get(term) ?? 0;
+  }
+  let count = 0;
+  for (const [token, frequency] of frequencies) {
+    if (token.startsWith(term)) {
+      count += frequency;
+    }
+  }
+  return count;
+}
+
+// チェックインの検索対象フィールドのテキスト
+function getFieldTexts(checkin: Checkin): Record<SearchField, string> {
+  const { venue } = checkin;
+  return {
+    venue: venue.name,
+    category: venue.categories.map(category => category.name).join(', '),
+    shout: checkin.shout ?? '',
+    address: venue.location.formattedAddress?.join(', ') ?? venue.location.address ?? ''
+  };
+}
+
+// テキスト内の一致箇所を **…** で強調し、最初の一致箇所の前後を切り出す
+function highlight(text: string, terms: string[]): string | undefined {
+  const { normalized, offsets } = normalizeWithOffsets(text);
+
+  // 一致箇所を元の文字列の範囲として集め、重なる範囲をまとめる
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    const cjk = CJK_PATTERN.test(term);
+    for (let index = normalized.indexOf(term); index !== -1; index = normalized.indexOf(term, index + 1)) {
+      // 日本語以外は単語の先頭での一致だけを強調する
+      if (!cjk && index > 0 && WORD_CHAR_PATTERN.test(normalized[index - 1]!)) {
+        continue;
+      }
+      ranges.push([offsets[index]!, offsets[index + term.length]!]);
+    }
+  }
+  if (ranges.length === 0) {
+    return undefined;
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  const snippetStart = Math.max(0, merged[0]![0] - SNIPPET_CONTEXT);
+  const snippetEnd = Math.min(text.length, merged[merged.length - 1]![1] + SNIPPET_CONTEXT);
+  let snippet = '';
+  let position = snippetStart;
+  for (const [start, end] of merged) {
+    snippet += `${text.slice(position, start)}**${text.slice(start, end)}**`;
+    position = end;
+  }
+  snippet += text.slice(position, snippetEnd);
+
+  return `${snippetStart > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ')}${snippetEnd < text.length ? '…' : ''}`;
+}
+
+/**
+ * チェックインを全文検索し、スコアの高い順に返す
+ * クエリのすべてのトークンを含むチェックインを対象に、フィールドの重み付きBM25でスコアを付ける
+ */
+export function searchCheckins(checkins: Checkin[], query: string): SearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const documents = checkins.map(checkin => {
+    const texts = getFieldTexts(checkin);
+    const fields = (Object.keys(texts) as SearchField[]).map(field => {
+      const tokens = tokenize(texts[field], 'document');
+      const frequencies = new Map<string, number>();
+      tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+      return { field, text: texts[field], length: tokens.length, frequencies };
+    });
+    return { checkin, fields };
+  });
+
+  // フィールドごとの平均トークン数と、各トークンを含むチェックインの数
+  const averageLengths = new Map<SearchField, number>();
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    const total = documents.reduce((sum, document) => sum + (document.fields.find(f => f.field === field)?.length ?? 0), 0);
+    averageLengths.set(field, documents.length > 0 ? total / documents.length : 0);
+  }
+  const documentFrequencies = new Map<string, number>();
+  for (const term of terms) {
+    documentFrequencies.set(term, documents.filter(document => document.fields.some(f => countTerm(f.frequencies, term) > 0)).length);
+  }
+
+  const results: SearchResult[] = [];
+  for (const { checkin, fields } of documents) {
+    if (!terms.every(term => fields.some(f => countTerm(f.frequencies, term) > 0))) {
+      continue;
+    }
+
+    let score = 0;
+    for (const term of terms) {
+      const df = documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      for (const { field, length, frequencies } of fields) {
+        const tf = countTerm(frequencies, term);
+        if (tf === 0) {
+          continue;
+        }
+        const averageLength = averageLengths.get(field) || 1;
+        const normalizedTf = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        score += FIELD_WEIGHTS[field] * idf * normalizedTf;
+      }
+    }
+
+    const highlights = fields.flatMap(({ field, text }) => {
+      const snippet = highlight(text, terms);
+      return snippet ? [{ field, snippet }] : [];
+    });
+    results.push({ checkin, score, highlights });
+  }
+
+  return results.sort((a, b) => b.score - a.score || b.checkin.createdAt - a.checkin.createdAt);
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs/promises';
+import { getSettingsPath } from './config.js';
+
+/**
+ * チェックイン日時の表示方法
+ * - local: チェックインした場所の現地時刻（timeZoneOffsetを使用）
+ * - home: 表示用タイムゾーンの時刻
+ * - both: 現地時刻と表示用タイムゾーンの時刻を併記（両者が異なる場合のみ）
+ */
+export type TimeDisplay = 'local' | 'home' | 'both';
+
+/**
+ * 表示言語
+ */
+export type Locale = 'ja' | 'en';
+
+/**
+ * ユーザー設定（設定ディレクトリの config.json）
+ */
+export interface Settings {
+  timezone: string;
+  timeDisplay: TimeDisplay;
+  locale: Locale;
+}
+
+const DEFAULT_SETTINGS: Settings = {
+  timezone: 'Asia/Tokyo',
+  timeDisplay: 'local',
+  locale: 'ja'
+};
+
+const TIME_DISPLAYS: TimeDisplay[] = ['local', 'home', 'both'];
+
+/**
+ * 言語指定（"en"、"ja_JP.UTF-8" など）から表示言語を判定
+ */
+export function parseLocale(value: string): Locale | undefined {
+  const language = value.toLowerCase().split(/[_.@-]/)[0];
+  return language === 'ja' || language === 'en' ? language : undefined;
+}
+
+/**
+ * IANAタイムゾーン名として有効か
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ユーザー設定管理クラス
+ * 環境変数 > config.json > デフォルト値 の順で優先する（言語はconfig.jsonの次にLANGを参照）
+ */
+export class SettingsManager {
+  private settings: Settings = { ...DEFAULT_SETTINGS };
+
+  /**
+   * 設定ファイルと環境変数から設定を読み込み
+   * 表示言語が決まる前に出すため、警告は英語で出力する
+   */
+  async load(): Promise<Settings> {
+    const file = await this.readFile();
+    const timezone = process.env.FOURSQUARE_TIMEZONE || file.timezone;
+    const timeDisplay = process.env.FOURSQUARE_TIME_DISPLAY || file.timeDisplay;
+    const locale = process.env.FOURSQUARE_LANG || file.locale;
+
+    this.settings = { ...DEFAULT_SETTINGS };
+
+    if (timezone) {
+      if (isValidTimezone(timezone)) {
+        this.settings.timezone = timezone;
+      } else {
+        console.error(`⚠️ Unknown timezone "${timezone}", using ${DEFAULT_SETTINGS.timezone}`);
+      }
+    }
+
+    if (timeDisplay) {
+      if (TIME_DISPLAYS.includes(timeDisplay as TimeDisplay)) {
+        this.settings.timeDisplay = timeDisplay as TimeDisplay;
+      } else {
+        console.error(`⚠️ Unknown time display "${timeDisplay}", using ${DEFAULT_SETTINGS.timeDisplay} (local / home / both)`);
+      }
+    }
+
+    if (locale) {
+      const parsed = parseLocale(locale);
+      if (parsed) {
+        this.settings.locale = parsed;
+      } else {
+        console.error(`⚠️ Unknown language "${locale}", using ${DEFAULT_SETTINGS.locale} (ja / en)`);
+      }
+    } else {
+      // 明示的な指定が無ければシステムのロケール（LC_ALL > LC_MESSAGES > LANG）に従う
+      const systemLocale = process.env.LC_ALL || process.env.LC_MESSAGES || process.env.LANG;
+      this.settings.locale = (systemLocale && parseLocale(systemLocale)) || DEFAULT_SETTINGS.locale;
+    }
+
+    return this.settings;
+  }
+
+  /**
+   * 現在の設定を取得（load前はデフォルト値）
+   */
+  get(): Settings {
+    return this.settings;
+  }
+
+  /**
+   * 設定ファイルを読み込み（存在しない場合や壊れている場合は空）
+   */
+  private async readFile(): Promise<Partial<Record<keyof Settings, string>>> {
+    const settingsPath = await getSettingsPath();
+    let data: string;
+    try {
+      data = await fs.readFile(settingsPath, 'utf-8');
+    } catch (error: any) {
+      // ファイルが存在しない場合はデフォルト値を使う
+      if (error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    // 壊れた設定ファイルで起動できなくならないよう、警告してデフォルト値を使う
+    try {
+      const parsed = JSON.parse(data);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+      console.error(`⚠️ Ignoring ${settingsPath}: expected a JSON object`);
+    } catch (error: any) {
+      console.error(`⚠️ Ignoring ${settingsPath}: ${error.message}`);
+    }
+    return {};
+  }
+}
+
+// シングルトンインスタンス
+export const settingsManager = new SettingsManager();
@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+import type { Checkin } from './api.js';
+import { computeCheckinStats, countByCategory, countVisitsByVenue } from './stats.js';
+
+// 現地時刻（UTC+09:00）の日時を指定したチェックイン
+function checkin(id: string, venueId: string, localTime: string, options: { categories?: Array<{ name: string; primary?: boolean }>; city?: string; state?: string } = {}): Checkin {
+  return {
+    id,
+    createdAt: Date.parse(`${localTime}+09:00`) / 1000,
+    timeZoneOffset: 540,
+    venue: {
+      id: venueId,
+      name: `Venue ${venueId}`,
+      categories: (options.categories ?? []).map((category, index) => ({ id: `${venueId}-${index}`, ...category })),
+      location: { lat: 0, lng: 0, city: options.city, state: options.state }
+    }
+  } as unknown as Checkin;
+}
+
+describe('countByCategory', () => {
+  test('counts the primary category, or the first one without a primary', () => {
+    const counts = countByCategory([
+      checkin('1', 'a', '2025-01-01T12:00:00', { categories: [{ name: 'Bar' }, { name: 'Ramen Restaurant', primary: true }] }),
+      checkin('2', 'b', '2025-01-01T12:00:00', { categories: [{ name: 'Ramen Restaurant' }, { name: 'Bar' }] }),
+      checkin('3', 'c', '2025-01-01T12:00:00', { categories: [{ name: 'Café' }] }),
+      checkin('4', 'd', '2025-01-01T12:00:00')
+    ]);
+    expect(counts).toEqual([{ name: 'Ramen Restaurant', count: 2 }, { name: 'Café', count: 1 }]);
+  });
+});
+
+describe('countVisitsByVenue', () => {
+  test('counts visits and keeps the latest checkin per venue', () => {
+    const visits = countVisitsByVenue([
+      checkin('new', 'a', '2025-02-01T12:00:00'),
+      checkin('old', 'a', '2025-01-01T12:00:00'),
+      checkin('other', 'b', '2025-01-15T12:00:00')
+    ]);
+    expect(visits.get('a')?.count).toBe(2);
+    expect(visits.get('a')?.lastCheckin.id).toBe('new');
+    expect(visits.get('b')?.count).toBe(1);
+  });
+});
+
+describe('computeCheckinStats', () => {
+  test('returns empty stats for no checkins', () => {
+    const stats = computeCheckinStats([]);
+    expect(stats.total).toBe(0);
+    expect(stats.venues).toEqual([]);
+    expect(stats.months).toEqual([]);
+    expect(stats.longestStreak).toBeUndefined();
+  });
+
+  test('aggregates by local time rather than UTC', () => {
+    // 2025-01-06（月）00:30 はUTCでは前日（日曜）
+    const stats = computeCheckinStats([checkin('1', 'a', '2025-01-06T00:30:00')]);
+    expect(stats.firstCheckin).toBe('2025-01-06');
+    expect(stats.weekdays[0]).toBe(1);
+    expect(stats.hours[0]).toBe(1);
+  });
+
+  test('ranks venues by count with first and last visit dates', () => {
+    const stats = computeCheckinStats([
+      checkin('1', 'a', '2025-01-03T12:00:00'),
+      checkin('2', 'a', '2025-01-01T12:00:00'),
+      checkin('3', 'b', '2025-01-02T12:00:00')
+    ]);
+    expect(stats.venues).toEqual([
+      { id: 'a', name: 'Venue a', count: 2, firstVisit: '2025-01-01', lastVisit: '2025-01-03' },
+      { id: 'b', name: 'Venue b', count: 1, firstVisit: '2025-01-02', lastVisit: '2025-01-02' }
+    ]);
+  });
+
+  test('counts cities, falling back to the state', () => {
+    const stats = computeCheckinStats([
+      checkin('1', 'a', '2025-01-01T12:00:00', { city: 'Shibuya' }),
+      checkin('2', 'b', '2025-01-01T12:00:00', { state: 'Tokyo' }),
+      checkin('3', 'c', '2025-01-01T12:00:00', { city: 'Shibuya', state: 'Tokyo' })
+    ]);
+    expect(stats.cities).toEqual([{ name: 'Shibuya', count: 2 }, { name: 'Tokyo', count: 1 }]);
+  });
+
+  test('finds the longest and the latest streak of consecutive days', () => {
+    const stats = computeCheckinStats([
+      checkin('1', 'a', '2025-01-01T12:00:00'),
+      checkin('2', 'a', '2025-01-02T12:00:00'),
+      checkin('3', 'a', '2025-01-02T18:00:00'),
+      checkin('4', 'a', '2025-01-03T12:00:00'),
+      checkin('5', 'a', '2025-01-10T12:00:00')
+    ]);
+    expect(stats.longestStreak).toEqual({ days: 3, start: '2025-01-01', end: '2025-01-03' });
+    expect(stats.latestStreak).toEqual({ days: 1, start: '2025-01-10', end: '2025-01-10' });
+  });
+
+  test('fills months without checkins and reports the change from the previous month', () => {
+    const stats = computeCheckinStats([
+      checkin('1', 'a', '2024-12-31T12:00:00'),
+      checkin('2', 'a', '2024-12-01T12:00:00'),
+      checkin('3', 'a', '2025-02-01T12:00:00')
+    ]);
+    expect(stats.months).toEqual([
+      { month: '2024-12', count: 2, change: null },
+      { month: '2025-01', count: 0, change: -2 },
+      { month: '2025-02', count: 1, change: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import dayjs from 'dayjs';
+import { foursquareAPI, type Checkin } from './api.js';
+
+/**
+ * 集計結果の1行
+ */
+export interface CountEntry {
+  name: string;
+  count: number;
+}
+
+// 件数の多い順に並べたCountEntryの一覧に変換
+function toSortedEntries(counts: Map<string, number>): CountEntry[] {
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * チェックインをベニューのカテゴリーごとに集計（多い順）
+ * 主カテゴリーがあればそれを、無ければ先頭のカテゴリーを使う
+ */
+export function countByCategory(checkins: Checkin[]): CountEntry[] {
+  const counts = new Map<string, number>();
+  for (const checkin of checkins) {
+    const categories = checkin.venue.categories;
+    const category = categories.find(c => c.primary) ?? categories[0];
+    if (category) {
+      counts.set(category.name, (counts.get(category.name) ?? 0) + 1);
+    }
+  }
+
+  return toSortedEntries(counts);
+}
+
+/**
+ * ベニューごとの訪問状況
+ */
+export interface VenueVisits {
+  count: number;
+  lastCheckin: Checkin;
+}
+
+/**
+ * チェックインをベニューIDごとに集計（訪問回数と最終訪問のチェックイン）
+ */
+export function countVisitsByVenue(checkins: Checkin[]): Map<string, VenueVisits> {
+  const visits = new Map<string, VenueVisits>();
+  for (const checkin of checkins) {
+    const visit = visits.get(checkin.venue.id);
+    if (!visit) {
+      visits.set(checkin.venue.id, { count: 1, lastCheckin: checkin });
+    } else {
+      visit.count++;
+      if (checkin.createdAt > visit.lastCheckin.createdAt) {
+        visit.lastCheckin = checkin;
+      }
+    }
+  }
+  return visits;
+}
+
+/**
+ * ベニューごとの集計結果
+ */
+export interface VenueStats {
+  id: string;
+  name: string;
+  count: number;
+  firstVisit: string; // YYYY-MM-DD（現地時刻）
+  lastVisit: string;
+}
+
+/**
+ * 連続してチェックインした期間
+ */
+export interface Streak {
+  days: number;
+  start: string; // YYYY-MM-DD（現地時刻）
+  end: string;
+}
+
+/**
+ * 月ごとの集計結果（changeは前月との差。最初の月はnull）
+ */
+export interface MonthStats {
+  month: string; // YYYY-MM
+  count: number;
+  change: number | null;
+}
+
+/**
+ * チェックイン統計
+ * 曜日・時間帯・日付はチェックインした場所の現地時刻で集計する
+ */
+export interface CheckinStats {
+  total: number;
+  firstCheckin?: string;
+  lastCheckin?: string;
+  venues: VenueStats[];
+  categories: CountEntry[];
+  cities: CountEntry[];
+  weekdays: number[]; // 月曜〜日曜の7件
+  hours: number[]; // 0〜23時の24件
+  longestStreak?: Streak;
+  latestStreak?: Streak;
+  months: MonthStats[];
+}
+
+// チェックインした日（YYYY-MM-DD）の一覧から連続した期間を求める（古い順）
+function findStreaks(days: string[]): Streak[] {
+  const streaks: Streak[] = [];
+  for (const day of [...new Set(days)].sort()) {
+    const last = streaks[streaks.length - 1];
+    if (last && dayjs(last.end).add(1, 'day').format('YYYY-MM-DD') === day) {
+      last.end = day;
+      last.days++;
+    } else {
+      streaks.push({ days: 1, start: day, end: day });
+    }
+  }
+  return streaks;
+}
+
+// 最初の月から最後の月までの月別件数（チェックインが無い月は0件）
+function countByMonth(months: string[]): MonthStats[] {
+  const counts = new Map<string, number>();
+  months.forEach(month => counts.set(month, (counts.get(month) ?? 0) + 1));
+
+  const sorted = [...counts.keys()].sort();
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (!first || !last) {
+    return [];
+  }
+
+  const result: MonthStats[] = [];
+  for (let month = dayjs(`${first}-01`); month.format('YYYY-MM') <= last; month = month.add(1, 'month')) {
+    const key = month.format('YYYY-MM');
+    const count = counts.get(key) ?? 0;
+    const previous = result[result.length - 1];
+    result.push({ month: key, count, change: previous ? count - previous.count : null });
+  }
+  return result;
+}
+
+/**
+ * チェックイン履歴の統計を集計
+ */
+export function computeCheckinStats(checkins: Checkin[]): CheckinStats {
+  const venues = new Map<string, VenueStats>();
+  const cities = new Map<string, number>();
+  const weekdays = new Array<number>(7).fill(0);
+  const hours = new Array<number>(24).fill(0);
+  const days: string[] = [];
+  const months: string[] = [];
+
+  for (const checkin of checkins) {
+    const time = foursquareAPI.getCheckinLocalTime(checkin);
+    const day = time.format('YYYY-MM-DD');
+    days.push(day);
+    months.push(time.format('YYYY-MM'));
+    // dayjsのday()は日曜=0のため、月曜始まりに変換
+    weekdays[(time.day() + 6) % 7]!++;
+    hours[time.hour()]!++;
+
+    const venue = venues.get(checkin.venue.id);
+    if (!venue) {
+      venues.set(checkin.venue.id, { id: checkin.venue.id, name: checkin.venue.name, count: 1, firstVisit: day, lastVisit: day });
+    } else {
+      venue.count++;
+      if (day < venue.firstVisit) {
+        venue.firstVisit = day;
+      }
+      if (day > venue.lastVisit) {
+        venue.lastVisit = day;
+      }
+    }
+
+    const city = checkin.venue.location.city || checkin.venue.location.state;
+    if (city) {
+      cities.set(city, (cities.get(city) ?? 0) + 1);
+    }
+  }
+
+  const streaks = findStreaks(days);
+  const sortedDays = [...days].sort();
+
+  return {
+    total: checkins.length,
+    firstCheckin: sortedDays[0],
+    lastCheckin: sortedDays[sortedDays.length - 1],
+    venues: [...venues.values()].sort((a, b) => b.count - a.count || b.lastVisit.localeCompare(a.lastVisit)),
+    categories: countByCategory(checkins),
+    cities: toSortedEntries(cities),
+    weekdays,
+    hours,
+    longestStreak: streaks.reduce<Streak | undefined>((longest, streak) => !longest || streak.days > longest.days ? streak : longest, undefined),
+    latestStreak: streaks[streaks.length - 1],
+    months: countByMonth(months)
+  };
+}